@@ -16,15 +16,29 @@ export async function request(url: string, data: any) {
     return res;
 }
 
-export async function requestWithHeaders(url: string, data: any, headers?: Record<string, string>, timeoutMs: number = 15000): Promise<any> {
+export async function requestWithHeaders(url: string, data: any, headers?: Record<string, string>, timeoutMs: number = 15000, signal?: AbortSignal): Promise<any> {
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        // The request itself cannot be aborted, the answer is ignored instead
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(signal.reason);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
         const timeoutId = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
             reject(new Error(`Request timeout for ${url}`));
         }, timeoutMs);
 
         try {
             fetchPost(url, data, (response: IWebSocketData) => {
                 clearTimeout(timeoutId);
+                signal?.removeEventListener("abort", onAbort);
                 if (response.code === 0) {
                     resolve(response.data);
                 } else {
@@ -34,12 +48,47 @@ export async function requestWithHeaders(url: string, data: any, headers?: Recor
             }, headers);
         } catch (error) {
             clearTimeout(timeoutId);
+            signal?.removeEventListener("abort", onAbort);
             consoleError(`Request failed for ${url}:`, error);
             reject(error);
         }
     });
 };
 
+/**
+ * Send a request with the Fetch API, so that aborting it cancels the request itself and not only its answer.
+ * Used by the requests changing files, which must not land once a sync is cancelled and its locks are released.
+ */
+export async function fetchWithHeaders(url: string, data: any, headers?: Record<string, string>, timeoutMs: number = 15000, signal?: AbortSignal): Promise<any> {
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timeoutId = setTimeout(() => controller.abort(new Error(`Request timeout for ${url}`)), timeoutMs);
+
+    try {
+        const response = await fetch(url, {
+            method: "POST",
+            headers,
+            body: data instanceof FormData ? data : JSON.stringify(data),
+            signal: controller.signal
+        });
+
+        const result = await response.json();
+        if (result.code === 0) return result.data;
+
+        consoleError(`Request failed for ${url}:`, result.msg || 'Unknown error');
+        return null;
+    } catch (error) {
+        if (!signal?.aborted) consoleError(`Request failed for ${url}:`, error);
+        throw error;
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
 // **************************************** Noteboook ****************************************
 
 
@@ -130,14 +179,14 @@ export async function removeDoc(notebook: NotebookId, path: string, urlPrefix: s
     return requestWithHeaders(url, data, headers);
 }
 
-export async function moveDocs(fromPaths: string[], toNotebook: NotebookId, toPath: string, urlPrefix: string = '', headers?: Record<string, string>) {
+export async function moveDocs(fromPaths: string[], toNotebook: NotebookId, toPath: string, urlPrefix: string = '', headers?: Record<string, string>, signal?: AbortSignal) {
     let data = {
         fromPaths: fromPaths,
         toNotebook: toNotebook,
         toPath: toPath
     };
     let url = `${urlPrefix}/api/filetree/moveDocs`;
-    return requestWithHeaders(url, data, headers);
+    return fetchWithHeaders(url, data, headers, undefined, signal);
 }
 
 export async function listDocsByPath(notebook: NotebookId, path: string, urlPrefix: string = '', headers?: Record<string, string>): Promise<DocsData> {
@@ -389,8 +438,25 @@ export async function copyFile(src: string, dest: string, urlPrefix: string = ''
     return requestWithHeaders(url, data, headers);
 }
 
-export const getFileBlob = async (path: string, urlPrefix: string = '', headers?: Record<string, string>, timeoutMs: number = 5000): Promise<Blob | null> => {
+/**
+ * A check run before the contents of a file are read or written, it throws to refuse the request.
+ */
+export type FileContentGuard = (path: string, urlPrefix: string) => void;
+
+let fileContentGuard: FileContentGuard | null = null;
+
+/**
+ * Set the check run before the contents of a file are read or written with getFileBlob or putFile.
+ *
+ * @param guard The check, or null to remove it.
+ */
+export function setFileContentGuard(guard: FileContentGuard | null) {
+    fileContentGuard = guard;
+}
+
+export const getFileBlob = async (path: string, urlPrefix: string = '', headers?: Record<string, string>, timeoutMs: number = 5000, signal?: AbortSignal): Promise<Blob | null> => {
     const endpoint = `${urlPrefix}/api/file/getFile`;
+    fileContentGuard?.(path, urlPrefix);
 
     try {
         const timeoutPromise = new Promise<never>((_, reject) => {
@@ -405,7 +471,8 @@ export const getFileBlob = async (path: string, urlPrefix: string = '', headers?
             },
             body: JSON.stringify({
                 path: path
-            })
+            }),
+            signal
         });
 
         const response = await Promise.race([fetchPromise, timeoutPromise]);
@@ -422,34 +489,32 @@ export const getFileBlob = async (path: string, urlPrefix: string = '', headers?
     }
 }
 
-export async function putFile(path: string, isDir: boolean, file: any, urlPrefix: string = '', headers?: Record<string, string>, modTime: number = Date.now()) {
+export async function putFile(path: string, isDir: boolean, file: any, urlPrefix: string = '', headers?: Record<string, string>, modTime: number = Date.now(), signal?: AbortSignal) {
+    fileContentGuard?.(path, urlPrefix);
     let form = new FormData();
     form.append('path', path);
     form.append('isDir', isDir.toString());
     form.append('modTime', modTime.toString());
     form.append('file', file);
     let url = `${urlPrefix}/api/file/putFile`;
-    return requestWithHeaders(url, form, headers);
+    return fetchWithHeaders(url, form, headers, undefined, signal);
 }
 
-export async function removeFile(path: string, urlPrefix: string = '', headers?: Record<string, string>) {
+export async function removeFile(path: string, urlPrefix: string = '', headers?: Record<string, string>, signal?: AbortSignal) {
     let data = {
         path: path
     }
     let url = `${urlPrefix}/api/file/removeFile`;
-    return requestWithHeaders(url, data, headers);
+    return fetchWithHeaders(url, data, headers, undefined, signal);
 }
 
-export async function readDir(path: string, urlPrefix: string = '', headers?: Record<string, string>, timeoutMs?: number): Promise<IResReadDir[]> {
+export async function readDir(path: string, urlPrefix: string = '', headers?: Record<string, string>, timeoutMs?: number, signal?: AbortSignal): Promise<IResReadDir[]> {
     let data = {
         path: path
     }
     let url = `${urlPrefix}/api/file/readDir`;
 
-    if (timeoutMs)
-        return requestWithHeaders(url, data, headers, timeoutMs);
-
-    return requestWithHeaders(url, data, headers);
+    return requestWithHeaders(url, data, headers, timeoutMs || undefined, signal);
 }
 
 // **************************************** Export ****************************************
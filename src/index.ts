@@ -1,9 +1,9 @@
-import { Plugin } from "siyuan";
+import { IPosition, Menu, Plugin } from "siyuan";
 import "@/index.scss";
 import { SettingsManager } from "./settings";
-import { SyncManager } from "@/sync";
+import { ConflictPanel, PeerState, SyncManager, SyncProgress, SyncStatusPanel } from "@/sync";
 import { cloudSyncSuccIcon } from "@/assets";
-import { SyncStatus } from "@/types/sync-status";
+import { SyncDirection, SyncProgressInfo, SyncStatus } from "@/types/sync-status";
 
 export default class BetterSyncPlugin extends Plugin {
     settingsManager: SettingsManager;
@@ -14,13 +14,23 @@ export default class BetterSyncPlugin extends Plugin {
         await this.settingsManager.setupSettings();
         this.syncManager = new SyncManager(this);
 
-        this.addTopBar({
+        const topBarElement = this.addTopBar({
             icon: "iconCloudSucc",
             title: this.i18n.cloudIconDesc,
             position: "right",
-            callback: async () => { this.syncManager.syncHandler(); },
+            callback: async (event: MouseEvent) => {
+                if (this.syncManager.getSyncStatus() === SyncStatus.InProgress)
+                    SyncStatusPanel.show(this);
+                else if (this.syncManager.getPeers().length > 1)
+                    this.showPeersMenu({ x: event.clientX, y: event.clientY, isLeft: true });
+                else
+                    this.syncManager.syncHandler();
+            },
         });
 
+        // The top bar icon shows the sync status and the pending changes like the other sync buttons
+        topBarElement.classList.add("better-sync-button");
+
         this.eventBus.on("switch-protyle", async ({ detail }) => {
             this.syncManager.setActiveProtyle(detail.protyle.getInstance());
         });
@@ -39,8 +49,8 @@ export default class BetterSyncPlugin extends Plugin {
             this.syncManager.removeProtyle(detail.protyle.getInstance());
         });
 
-        this.syncManager.onSyncStatusChange((status: SyncStatus) => {
-            this.updateButtonIcon(status);
+        this.syncManager.onSyncStatusChange((status: SyncStatus, progress: SyncProgressInfo | null) => {
+            this.updateButtonIcon(status, progress);
         });
 
         this.addCommand({
@@ -59,6 +69,101 @@ export default class BetterSyncPlugin extends Plugin {
                 await this.syncManager.syncHandler();
             },
         });
+
+        this.addCommand({
+            langKey: "previewSync",
+            hotkey: "",
+            callback: async () => {
+                await this.syncManager.syncHandler(true, this.syncManager.getPeers(), SyncDirection.Bidirectional, true);
+            },
+        });
+
+        this.addCommand({
+            langKey: "startPushSync",
+            hotkey: "",
+            callback: async () => {
+                await this.syncManager.syncHandler(true, this.syncManager.getPeers(), SyncDirection.PushOnly);
+            },
+        });
+
+        this.addCommand({
+            langKey: "startPullSync",
+            hotkey: "",
+            callback: async () => {
+                await this.syncManager.syncHandler(true, this.syncManager.getPeers(), SyncDirection.PullOnly);
+            },
+        });
+
+        this.addCommand({
+            langKey: "resolveConflicts",
+            hotkey: "",
+            callback: () => {
+                ConflictPanel.show(this);
+            },
+        });
+
+        this.addCommand({
+            langKey: "showSyncStatus",
+            hotkey: "",
+            callback: () => {
+                SyncStatusPanel.show(this);
+            },
+        });
+
+        this.addCommand({
+            langKey: "cancelSync",
+            hotkey: "",
+            callback: () => {
+                this.syncManager.cancelSync();
+            },
+        });
+
+        this.addCommand({
+            langKey: "undoLastSync",
+            hotkey: "",
+            callback: async () => {
+                await this.syncManager.undoLastSync();
+            },
+        });
+
+        this.addCommand({
+            langKey: "syncWithPeer",
+            hotkey: "",
+            callback: () => {
+                this.showPeersMenu({ x: window.innerWidth / 2, y: window.innerHeight / 3 });
+            },
+        });
+    }
+
+    /**
+     * Show a menu to choose which peer to sync with.
+     * The first entry syncs with all the enabled peers in turn.
+     *
+     * @param position The position where the menu should be opened.
+     */
+    private showPeersMenu(position: IPosition) {
+        const menu = new Menu("betterSyncPeers");
+
+        menu.addItem({
+            icon: "iconCloudSucc",
+            label: this.i18n.syncWithAllPeers,
+            click: () => { this.syncManager.syncHandler(); }
+        });
+
+        menu.addSeparator();
+
+        for (const peer of this.syncManager.getPeers()) {
+            const lastSyncTime = this.syncManager.getLastSyncTimeWithPeer(peer);
+
+            menu.addItem({
+                icon: "iconCloud",
+                label: peer.name,
+                accelerator: lastSyncTime > 0 ? new Date(lastSyncTime * 1000).toLocaleString() : "",
+                click: () => { this.syncManager.syncHandler(true, [peer]); }
+            });
+        }
+
+        menu.open(position);
     }
 
     private addButtonBreadcrumb() {
@@ -130,15 +235,19 @@ export default class BetterSyncPlugin extends Plugin {
         return true;
     }
 
-    private async updateButtonIcon(status: SyncStatus) {
+    private async updateButtonIcon(status: SyncStatus, progress: SyncProgressInfo | null = this.syncManager.getSyncProgress()) {
         const elements = document.querySelectorAll(".better-sync-button");
         if (elements.length === 0) return;
 
         const lastSyncTime = await this.syncManager.getLastLocalSyncTime() * 1000;
+        const pendingChanges = this.syncManager.getPendingChangesCount();
         const lastSyncTimeString = "\n" + this.i18n.lastSyncTime.replace(
             "{{lastSyncTime}}",
             new Date(lastSyncTime).toLocaleString()
-        );
+        ) + (pendingChanges > 0 ? "\n" + this.i18n.pendingChanges.replace("{{count}}", String(pendingChanges)) : "")
+            + this.getPeerStatesString();
+
+        const progressString = progress ? "\n" + SyncProgress.describe(this.i18n, progress) : "";
 
         elements.forEach(async e => {
             const svg = e.querySelector("svg");
@@ -151,8 +260,8 @@ export default class BetterSyncPlugin extends Plugin {
                 case SyncStatus.InProgress:
                     svg.classList.add("fn__rotate");
                     svg.innerHTML = `<use xlink:href="#iconRefresh"></use>`;
-                    e.setAttribute("aria-label", this.i18n.syncInProgress);
-                    if (label) label.textContent = this.i18n.syncInProgress;
+                    e.setAttribute("aria-label", this.i18n.syncInProgress + progressString);
+                    if (label) label.textContent = this.i18n.syncInProgress + progressString;
                     break;
                 case SyncStatus.Done:
                     svg.classList.remove("fn__rotate");
@@ -172,6 +281,12 @@ export default class BetterSyncPlugin extends Plugin {
                     e.setAttribute("aria-label", this.i18n.syncFailed + lastSyncTimeString);
                     if (label) label.textContent = this.i18n.syncFailed + lastSyncTimeString;
                     break;
+                case SyncStatus.Cancelled:
+                    svg.classList.remove("fn__rotate");
+                    svg.innerHTML = `<svg><use xlink:href="#iconCloudSucc"></use></svg>`;
+                    e.setAttribute("aria-label", this.i18n.syncCancelledStatus + lastSyncTimeString);
+                    if (label) label.textContent = this.i18n.syncCancelledStatus + lastSyncTimeString;
+                    break;
                 case SyncStatus.None:
                 default:
                     svg.classList.remove("fn__rotate");
@@ -183,6 +298,21 @@ export default class BetterSyncPlugin extends Plugin {
         });
     }
 
+    /**
+     * Describe the peers which are not online, one per line.
+     */
+    private getPeerStatesString(): string {
+        const labels: Partial<Record<PeerState, string>> = {
+            [PeerState.Offline]: this.i18n.peerOffline,
+            [PeerState.AuthFailed]: this.i18n.peerAuthFailed
+        };
+
+        return this.syncManager.getPeers()
+            .filter(peer => labels[this.syncManager.getPeerState(peer)])
+            .map(peer => "\n" + labels[this.syncManager.getPeerState(peer)].replace("{{remoteName}}", peer.name))
+            .join("");
+    }
+
     private setupButtonBreadcrumb() {
         const syncIconInBreadcrumb = this.settingsManager.getPref("syncIconInBreadcrumb") as Boolean;
         syncIconInBreadcrumb ? this.addButtonBreadcrumb() : this.removeButtonBreadcrumb();
@@ -206,7 +336,9 @@ export default class BetterSyncPlugin extends Plugin {
         if (syncOnOpen) this.syncManager.syncHandler(!syncIconInBreadcrumb);
     }
 
-    async onunload() {}
+    async onunload() {
+        this.syncManager?.unload();
+    }
 
     uninstall() {}
 }
@@ -0,0 +1,32 @@
+/**
+ * Base64 codec for binary data sent as text, e.g. in WebSocket payloads.
+ */
+export class Base64 {
+    /**
+     * Encode bytes, in slices as the arguments of `String.fromCharCode` are limited.
+     */
+    static encode(bytes: Uint8Array): string {
+        let binary = "";
+        const chunkSize = 0x8000;
+
+        for (let i = 0; i < bytes.length; i += chunkSize)
+            binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+
+        return btoa(binary);
+    }
+
+    /**
+     * Decode a base64 string.
+     *
+     * @throws If the string is not valid base64.
+     */
+    static decode(text: string): Uint8Array<ArrayBuffer> {
+        const binary = atob(text);
+        const bytes = new Uint8Array(binary.length);
+
+        for (let i = 0; i < binary.length; i++)
+            bytes[i] = binary.charCodeAt(i);
+
+        return bytes;
+    }
+}
@@ -0,0 +1,75 @@
+import { consoleLog } from "@/logging";
+
+/**
+ * Compression of the data sent to the peers, with the streams built in the browser.
+ */
+export class Compression {
+    /**
+     * The supported formats, in the default order of preference.
+     */
+    static readonly FORMATS: CompressionFormat[] = ["gzip", "deflate"];
+
+    /**
+     * Check whether a format can be compressed and decompressed on this device.
+     *
+     * @param format The format to check, anything else than a supported format is rejected.
+     */
+    static isSupported(format: string | null | undefined): format is CompressionFormat {
+        return Compression.FORMATS.includes(format as CompressionFormat)
+            && typeof CompressionStream !== "undefined"
+            && typeof DecompressionStream !== "undefined";
+    }
+
+    /**
+     * Get the formats accepted by this device, the preferred one first.
+     *
+     * @param preferred The format chosen in the settings, or "none" to disable compression.
+     */
+    static getAcceptedFormats(preferred: string): CompressionFormat[] {
+        if (!Compression.isSupported(preferred)) return [];
+        return [preferred, ...Compression.FORMATS.filter(format => format !== preferred && Compression.isSupported(format))];
+    }
+
+    /**
+     * Choose the format to use with a peer: the first format offered by the peer which this device accepts.
+     *
+     * @param offered The formats accepted by the peer, the preferred one first.
+     * @param preferred The format chosen in the settings of this device.
+     * @returns The format, or null to send uncompressed data.
+     */
+    static negotiate(offered: string[], preferred: string): CompressionFormat | null {
+        const accepted = Compression.getAcceptedFormats(preferred);
+        return (offered || []).find(format => accepted.includes(format as CompressionFormat)) as CompressionFormat ?? null;
+    }
+
+    /**
+     * Compress data.
+     */
+    static async compress(data: BlobPart, format: CompressionFormat): Promise<Blob> {
+        const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+        return new Response(stream).blob();
+    }
+
+    /**
+     * Decompress data.
+     *
+     * @throws If the data is not valid for the format.
+     */
+    static async decompress(data: BlobPart, format: CompressionFormat): Promise<Blob> {
+        const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+        return new Response(stream).blob();
+    }
+
+    /**
+     * Report the compression ratio of some data in the sync log.
+     *
+     * @param description What was compressed.
+     * @param originalSize The size before compression, in bytes.
+     * @param compressedSize The size after compression, in bytes.
+     * @param format The format used.
+     */
+    static logRatio(description: string, originalSize: number, compressedSize: number, format: CompressionFormat) {
+        const ratio = originalSize > 0 ? Math.round(compressedSize / originalSize * 100) : 100;
+        consoleLog(`Compressed ${description} with ${format}: ${originalSize} to ${compressedSize} bytes (${ratio}%).`);
+    }
+}
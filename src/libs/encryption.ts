@@ -0,0 +1,105 @@
+/**
+ * Shared-secret encryption of the data exchanged with the peers, with AES-GCM keys derived from a passphrase.
+ * Every device of the user enters the same passphrase, the key never leaves the device.
+ */
+export class Encryption {
+    /**
+     * The number of PBKDF2 iterations, as recommended for SHA-256.
+     */
+    static readonly ITERATIONS = 600000;
+
+    /**
+     * The salt of the key derivation, the same on every device so that they derive the same key.
+     */
+    private static readonly SALT = "siyuan-plugin-better-sync";
+
+    /**
+     * The header of the encrypted data, followed by the 12 bytes IV and the ciphertext.
+     */
+    private static readonly MAGIC = new TextEncoder().encode("BSE1");
+    private static readonly IV_SIZE = 12;
+
+    // Deriving a key takes a while, the key of the last passphrase is kept
+    private static cachedKey: { passphrase: string, key: Promise<CryptoKey> } | null = null;
+
+    /**
+     * Check whether the encryption is available, the Web Crypto API is only available in secure contexts.
+     */
+    static isSupported(): boolean {
+        return !!crypto?.subtle;
+    }
+
+    /**
+     * Derive the key of a passphrase.
+     *
+     * @param passphrase The passphrase shared by the devices.
+     */
+    static getKey(passphrase: string): Promise<CryptoKey> {
+        if (Encryption.cachedKey?.passphrase !== passphrase) {
+            const key = Encryption.deriveKey(passphrase);
+            Encryption.cachedKey = { passphrase, key };
+
+            // A failed derivation is tried again next time
+            key.catch(() => {
+                if (Encryption.cachedKey?.key === key) Encryption.cachedKey = null;
+            });
+        }
+
+        return Encryption.cachedKey.key;
+    }
+
+    /**
+     * Encrypt data with a new random IV.
+     *
+     * @param data The data to encrypt.
+     * @param key The key of the passphrase.
+     */
+    static async encrypt(data: BlobPart, key: CryptoKey): Promise<Blob> {
+        const iv = crypto.getRandomValues(new Uint8Array(Encryption.IV_SIZE));
+        const plaintext = await new Blob([data]).arrayBuffer();
+        const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+
+        return new Blob([Encryption.MAGIC, iv, ciphertext]);
+    }
+
+    /**
+     * Decrypt data encrypted by a device with the same passphrase.
+     *
+     * @param data The encrypted data.
+     * @param key The key of the passphrase.
+     * @throws If the data is not encrypted, was altered, or was encrypted with another passphrase.
+     */
+    static async decrypt(data: BlobPart, key: CryptoKey): Promise<Blob> {
+        const bytes = new Uint8Array(await new Blob([data]).arrayBuffer());
+        if (!Encryption.isEncrypted(bytes)) throw new Error("The data is not encrypted");
+
+        const headerSize = Encryption.MAGIC.length + Encryption.IV_SIZE;
+        const iv = bytes.subarray(Encryption.MAGIC.length, headerSize);
+
+        try {
+            return new Blob([await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, bytes.subarray(headerSize))]);
+        } catch {
+            throw new Error("Failed to decrypt the data, the passphrases of the devices may differ");
+        }
+    }
+
+    /**
+     * Check whether data starts with the header of the encrypted data.
+     */
+    static isEncrypted(bytes: Uint8Array): boolean {
+        return bytes.length >= Encryption.MAGIC.length + Encryption.IV_SIZE
+            && Encryption.MAGIC.every((byte, index) => bytes[index] === byte);
+    }
+
+    private static async deriveKey(passphrase: string): Promise<CryptoKey> {
+        const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+
+        return crypto.subtle.deriveKey(
+            { name: "PBKDF2", salt: new TextEncoder().encode(Encryption.SALT), iterations: Encryption.ITERATIONS, hash: "SHA-256" },
+            material,
+            { name: "AES-GCM", length: 256 },
+            false,
+            ["encrypt", "decrypt"]
+        );
+    }
+}
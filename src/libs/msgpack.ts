@@ -0,0 +1,247 @@
+/**
+ * A MessagePack extension value, kept as raw bytes so that it is encoded back unchanged.
+ * SiYuan stores time values this way in the flashcard decks.
+ */
+export class MsgPackExt {
+    public type: number;
+    public data: Uint8Array;
+
+    constructor(type: number, data: Uint8Array) {
+        this.type = type;
+        this.data = data;
+    }
+}
+
+/**
+ * A MessagePack number with an explicit size, kept with its type so that it is encoded back unchanged.
+ * SiYuan writes the fields of the flashcards with their Go types, e.g. 64-bit integers and float32 values.
+ */
+export class MsgPackNumber {
+    public code: number;
+    public value: number | bigint;
+
+    constructor(code: number, value: number | bigint) {
+        this.code = code;
+        this.value = value;
+    }
+}
+
+/**
+ * Minimal MessagePack codec, enough to read and write the flashcard files of SiYuan.
+ * Decoding then encoding gives back the same bytes, as long as the data uses the shortest headers, as SiYuan writes it.
+ * Maps with string keys are decoded as plain objects, other maps as Map to keep the type and order of their keys.
+ * Binary values are decoded as Uint8Array, numbers with an explicit size as MsgPackNumber
+ * and 64-bit integers outside the safe range as BigInt.
+ */
+export class MsgPack {
+    /**
+     * Decode a MessagePack buffer.
+     *
+     * @param buffer The encoded data.
+     * @returns The decoded value.
+     * @throws If the data is not valid MessagePack or has trailing bytes.
+     */
+    static decode(buffer: ArrayBuffer | Uint8Array): any {
+        const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let offset = 0;
+
+        const take = (length: number): Uint8Array => {
+            if (offset + length > bytes.length) throw new Error("Unexpected end of MessagePack data");
+            const slice = bytes.subarray(offset, offset + length);
+            offset += length;
+            return slice;
+        };
+
+        const uint = (size: 1 | 2 | 4): number => {
+            const value = size === 1 ? view.getUint8(offset) : size === 2 ? view.getUint16(offset) : view.getUint32(offset);
+            offset += size;
+            return value;
+        };
+
+        const number = (code: number, size: number, get: (at: number) => number | bigint): MsgPackNumber => {
+            if (offset + size > bytes.length) throw new Error("Unexpected end of MessagePack data");
+            let value = get(offset);
+            offset += size;
+
+            if (typeof value === "bigint" && value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER))
+                value = Number(value);
+            return new MsgPackNumber(code, value);
+        };
+
+        const text = (length: number): string => new TextDecoder().decode(take(length));
+
+        const array = (length: number): any[] => Array.from({ length }, () => read());
+
+        const map = (length: number): Record<string, any> | Map<any, any> => {
+            const entries: [any, any][] = Array.from({ length }, () => [read(), read()]);
+
+            // Objects would reorder integer-like keys and give a special meaning to __proto__
+            const keepsKeys = entries.every(([key]) => typeof key === "string" && !/^(0|[1-9]\d*)$/.test(key) && key !== "__proto__");
+            return keepsKeys ? Object.fromEntries(entries) : new Map(entries);
+        };
+
+        const ext = (length: number): MsgPackExt => {
+            const type = view.getInt8(offset++);
+            return new MsgPackExt(type, take(length).slice());
+        };
+
+        const read = (): any => {
+            if (offset >= bytes.length) throw new Error("Unexpected end of MessagePack data");
+            const code = bytes[offset++];
+
+            if (code <= 0x7f) return code;
+            if (code <= 0x8f) return map(code & 0x0f);
+            if (code <= 0x9f) return array(code & 0x0f);
+            if (code <= 0xbf) return text(code & 0x1f);
+            if (code >= 0xe0) return code - 0x100;
+
+            switch (code) {
+                case 0xc0: return null;
+                case 0xc2: return false;
+                case 0xc3: return true;
+                case 0xc4: return take(uint(1)).slice();
+                case 0xc5: return take(uint(2)).slice();
+                case 0xc6: return take(uint(4)).slice();
+                case 0xc7: return ext(uint(1));
+                case 0xc8: return ext(uint(2));
+                case 0xc9: return ext(uint(4));
+                case 0xca: return number(code, 4, at => view.getFloat32(at));
+                case 0xcb: return number(code, 8, at => view.getFloat64(at));
+                case 0xcc: return number(code, 1, at => view.getUint8(at));
+                case 0xcd: return number(code, 2, at => view.getUint16(at));
+                case 0xce: return number(code, 4, at => view.getUint32(at));
+                case 0xcf: return number(code, 8, at => view.getBigUint64(at));
+                case 0xd0: return number(code, 1, at => view.getInt8(at));
+                case 0xd1: return number(code, 2, at => view.getInt16(at));
+                case 0xd2: return number(code, 4, at => view.getInt32(at));
+                case 0xd3: return number(code, 8, at => view.getBigInt64(at));
+                case 0xd4: return ext(1);
+                case 0xd5: return ext(2);
+                case 0xd6: return ext(4);
+                case 0xd7: return ext(8);
+                case 0xd8: return ext(16);
+                case 0xd9: return text(uint(1));
+                case 0xda: return text(uint(2));
+                case 0xdb: return text(uint(4));
+                case 0xdc: return array(uint(2));
+                case 0xdd: return array(uint(4));
+                case 0xde: return map(uint(2));
+                case 0xdf: return map(uint(4));
+                default: throw new Error(`Invalid MessagePack code 0x${code.toString(16)}`);
+            }
+        };
+
+        const result = read();
+        if (offset !== bytes.length) throw new Error("Trailing bytes after MessagePack data");
+
+        return result;
+    }
+
+    /**
+     * Encode a value as MessagePack.
+     *
+     * @param value The value to encode.
+     * @returns The encoded data.
+     */
+    static encode(value: any): ArrayBuffer {
+        const chunks: number[] = [];
+
+        const push = (...values: number[]) => { for (const v of values) chunks.push(v); };
+        const pushBytes = (bytes: Uint8Array) => { for (const b of bytes) chunks.push(b); };
+
+        const header = (length: number, fix: number | null, fixMax: number, codes: [number, number, number]) => {
+            if (fix !== null && length <= fixMax) push(fix | length);
+            else if (length <= 0xff && codes[0] !== 0) push(codes[0], length);
+            else if (length <= 0xffff) push(codes[1], length >> 8, length & 0xff);
+            else push(codes[2], (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+        };
+
+        const fixed = (code: number, size: number, write: (view: DataView) => void) => {
+            const buffer = new DataView(new ArrayBuffer(size));
+            write(buffer);
+            push(code);
+            pushBytes(new Uint8Array(buffer.buffer));
+        };
+
+        const write = (value: any) => {
+            if (value === null || value === undefined) return push(0xc0);
+            if (value === false) return push(0xc2);
+            if (value === true) return push(0xc3);
+
+            if (typeof value === "bigint") {
+                return value < BigInt(0)
+                    ? fixed(0xd3, 8, view => view.setBigInt64(0, value))
+                    : fixed(0xcf, 8, view => view.setBigUint64(0, value));
+            }
+
+            if (value instanceof MsgPackNumber) {
+                const number = value.value;
+                switch (value.code) {
+                    case 0xca: return fixed(0xca, 4, view => view.setFloat32(0, Number(number)));
+                    case 0xcb: return fixed(0xcb, 8, view => view.setFloat64(0, Number(number)));
+                    case 0xcc: return fixed(0xcc, 1, view => view.setUint8(0, Number(number)));
+                    case 0xcd: return fixed(0xcd, 2, view => view.setUint16(0, Number(number)));
+                    case 0xce: return fixed(0xce, 4, view => view.setUint32(0, Number(number)));
+                    case 0xcf: return fixed(0xcf, 8, view => view.setBigUint64(0, BigInt(number)));
+                    case 0xd0: return fixed(0xd0, 1, view => view.setInt8(0, Number(number)));
+                    case 0xd1: return fixed(0xd1, 2, view => view.setInt16(0, Number(number)));
+                    case 0xd2: return fixed(0xd2, 4, view => view.setInt32(0, Number(number)));
+                    case 0xd3: return fixed(0xd3, 8, view => view.setBigInt64(0, BigInt(number)));
+                    default: return write(number);
+                }
+            }
+
+            if (typeof value === "number") {
+                if (!Number.isInteger(value)) return fixed(0xcb, 8, view => view.setFloat64(0, value));
+                if (value >= 0 && value <= 0x7f) return push(value);
+                if (value < 0 && value >= -32) return push(value & 0xff);
+                if (value >= 0) {
+                    if (value <= 0xff) return push(0xcc, value);
+                    if (value <= 0xffff) return fixed(0xcd, 2, view => view.setUint16(0, value));
+                    if (value <= 0xffffffff) return fixed(0xce, 4, view => view.setUint32(0, value));
+                    return fixed(0xcf, 8, view => view.setBigUint64(0, BigInt(value)));
+                }
+                if (value >= -0x80) return fixed(0xd0, 1, view => view.setInt8(0, value));
+                if (value >= -0x8000) return fixed(0xd1, 2, view => view.setInt16(0, value));
+                if (value >= -0x80000000) return fixed(0xd2, 4, view => view.setInt32(0, value));
+                return fixed(0xd3, 8, view => view.setBigInt64(0, BigInt(value)));
+            }
+
+            if (typeof value === "string") {
+                const bytes = new TextEncoder().encode(value);
+                header(bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb]);
+                return pushBytes(bytes);
+            }
+
+            if (value instanceof Uint8Array) {
+                header(value.length, null, 0, [0xc4, 0xc5, 0xc6]);
+                return pushBytes(value);
+            }
+
+            if (value instanceof MsgPackExt) {
+                const fixExt: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+                if (fixExt[value.data.length]) push(fixExt[value.data.length]);
+                else header(value.data.length, null, 0, [0xc7, 0xc8, 0xc9]);
+
+                push(value.type & 0xff);
+                return pushBytes(value.data);
+            }
+
+            if (Array.isArray(value)) {
+                header(value.length, 0x90, 15, [0, 0xdc, 0xdd]);
+                return value.forEach(write);
+            }
+
+            const entries = value instanceof Map ? Array.from(value.entries()) : Object.entries(value);
+            header(entries.length, 0x80, 15, [0, 0xde, 0xdf]);
+            for (const [key, item] of entries) {
+                write(key);
+                write(item);
+            }
+        };
+
+        write(value);
+        return new Uint8Array(chunks).buffer;
+    }
+}
@@ -1,12 +1,27 @@
 import { consoleError, consoleWarn } from "@/logging";
+import { Base64 } from "@/libs/base64";
+import { Compression } from "@/libs/compression";
+import { Encryption } from "@/libs/encryption";
+import { Protocol } from "@/libs/protocol";
 
 export class Payload {
+    /**
+     * Payloads smaller than this are sent uncompressed, in characters of JSON.
+     */
+    static readonly MIN_COMPRESSED_SIZE = 1024;
+
     public type: string;
     public data: any;
 
-    constructor(type: string, data: any) {
+    /**
+     * The protocol version of the sender, sent as the `protocolVersion` field of the data.
+     */
+    public version: number;
+
+    constructor(type: string, data: any, version: number = Protocol.VERSION) {
         this.type = type;
         this.data = data;
+        this.version = version;
     }
 
     /**
@@ -15,7 +30,7 @@ export class Payload {
      */
     public toString(): string {
         try {
-            const jsonData = JSON.stringify(this.data);
+            const jsonData = JSON.stringify(this.getVersionedData());
             return `b-sync-payload:${this.type}:${jsonData}`;
         } catch (e) {
             consoleError("Failed to encode Payload", e);
@@ -23,6 +38,115 @@ export class Payload {
         }
     }
 
+    /**
+     * Encodes the payload into a string, compressing the data if a format was negotiated with the receiver.
+     * The compressed format is `b-sync-payload+<format>:<type>:<base64-data>`, which older versions ignore.
+     *
+     * @param format The compression format accepted by the receiver, or null to send uncompressed data.
+     */
+    public async toCompressedString(format: CompressionFormat | null): Promise<string> {
+        const plain = this.toString();
+        if (!format || plain.length < Payload.MIN_COMPRESSED_SIZE) return plain;
+
+        try {
+            const jsonData = new Blob([JSON.stringify(this.getVersionedData())]);
+            const compressed = await Compression.compress(jsonData, format);
+            Compression.logRatio(`${this.type} payload`, jsonData.size, compressed.size, format);
+
+            const encoded = Base64.encode(new Uint8Array(await compressed.arrayBuffer()));
+            return encoded.length < plain.length ? `b-sync-payload+${format}:${this.type}:${encoded}` : plain;
+        } catch (e) {
+            consoleWarn("Failed to compress Payload, sending it uncompressed", e);
+            return plain;
+        }
+    }
+
+    /**
+     * Encodes the payload into an encrypted string, so that only the devices with the same passphrase can read it.
+     * The type is encrypted along with the data, the format is `b-sync-encrypted[+<format>]:<base64-data>`.
+     *
+     * @param key The key of the encryption passphrase.
+     * @param format The compression format accepted by the receiver, or null to send uncompressed data.
+     */
+    public async toEncryptedString(key: CryptoKey, format: CompressionFormat | null): Promise<string> {
+        const message = new Blob([JSON.stringify({ type: this.type, data: this.getVersionedData() })]);
+
+        // Compression only works before encryption, the ciphertext looks random
+        const compressed = format && message.size >= Payload.MIN_COMPRESSED_SIZE
+            ? await Compression.compress(message, format)
+            : null;
+
+        const encrypted = await Encryption.encrypt(compressed ?? message, key);
+        const encoded = Base64.encode(new Uint8Array(await encrypted.arrayBuffer()));
+        return compressed ? `b-sync-encrypted+${format}:${encoded}` : `b-sync-encrypted:${encoded}`;
+    }
+
+    /**
+     * Parses a string to create a Payload instance, decrypting and decompressing the data if needed.
+     * When a key is given, unencrypted payloads are rejected, so that a relay cannot inject messages.
+     *
+     * @param str The string to parse.
+     * @param key The key of the encryption passphrase, or null if encryption is disabled.
+     * @returns A Payload instance, or null if parsing fails.
+     */
+    public static async decode(str: string, key: CryptoKey | null = null): Promise<Payload | null> {
+        const encrypted = str.match(/^b-sync-encrypted(?:\+([a-z-]+))?:/);
+
+        if (encrypted) {
+            if (!key) {
+                consoleWarn("Received an encrypted Payload, but encryption is not enabled on this device.");
+                return null;
+            }
+
+            return Payload.decrypt(str.substring(encrypted[0].length), encrypted[1] ?? null, key);
+        }
+
+        if (key) {
+            consoleWarn("Ignoring an unencrypted Payload, as encryption is enabled on this device.");
+            return null;
+        }
+
+        const match = str.match(/^b-sync-payload\+([a-z-]+):([^:]+):/);
+        if (!match) return Payload.fromString(str);
+
+        const [prefix, format, type] = match;
+        if (!Compression.isSupported(format)) {
+            consoleWarn("Received a Payload compressed with an unsupported format:", format);
+            return null;
+        }
+
+        try {
+            const jsonData = await Compression.decompress(Base64.decode(str.substring(prefix.length)), format);
+            return Payload.fromVersionedData(type, JSON.parse(await jsonData.text()));
+        } catch (e) {
+            consoleError("Failed to decompress Payload string", e);
+            return null;
+        }
+    }
+
+    /**
+     * Decrypt the data of an encrypted payload.
+     */
+    private static async decrypt(encoded: string, format: string | null, key: CryptoKey): Promise<Payload | null> {
+        const compression = Compression.isSupported(format) ? format : null;
+        if (format && !compression) {
+            consoleWarn("Received a Payload compressed with an unsupported format:", format);
+            return null;
+        }
+
+        try {
+            const decrypted = await Encryption.decrypt(Base64.decode(encoded), key);
+            const message = compression ? await Compression.decompress(decrypted, compression) : decrypted;
+            const { type, data } = JSON.parse(await message.text());
+
+            if (typeof type !== "string") return null;
+            return Payload.fromVersionedData(type, data);
+        } catch (e) {
+            consoleError("Failed to decrypt Payload string", e);
+            return null;
+        }
+    }
+
     /**
      * Parses a string to create a Payload instance.
      * @param str The string to parse.
@@ -46,10 +170,28 @@ export class Payload {
             const type = rest.substring(0, typeEndIndex);
             const jsonData = rest.substring(typeEndIndex + 1);
             const data = JSON.parse(jsonData);
-            return new Payload(type, data);
+            return Payload.fromVersionedData(type, data);
         } catch (e) {
             consoleError("Failed to parse Payload string", e);
             return null;
         }
     }
+
+    /**
+     * Get the data with the protocol version, older versions ignore the extra field.
+     */
+    private getVersionedData(): any {
+        const isObject = typeof this.data === "object" && this.data !== null && !Array.isArray(this.data);
+        return isObject ? { ...this.data, protocolVersion: this.version } : this.data;
+    }
+
+    /**
+     * Create a payload from received data, the messages of older versions are version 1.
+     */
+    private static fromVersionedData(type: string, data: any): Payload {
+        if (typeof data?.protocolVersion !== "number") return new Payload(type, data, 1);
+
+        const { protocolVersion, ...rest } = data;
+        return new Payload(type, rest, protocolVersion);
+    }
 }
@@ -8,7 +8,12 @@ export default class PromiseLimitPool<T> {
         this.maxConcurrent = maxConcurrent;
     }
 
-    add(fn: () => Promise<T>): void {
+    /**
+     * Run a task once fewer than the maximum number of tasks are running.
+     *
+     * @returns The result of the task.
+     */
+    add(fn: () => Promise<T>): Promise<T> {
         const promise = new Promise<T>((resolve, reject) => {
             const run = async () => {
                 try {
@@ -30,6 +35,8 @@ export default class PromiseLimitPool<T> {
             }
         });
         this.promises.push(promise);
+
+        return promise;
     }
 
     async awaitAll(): Promise<T[]> {
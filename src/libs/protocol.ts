@@ -0,0 +1,249 @@
+import { Payload } from "@/libs/payload";
+
+/**
+ * The optional features a device supports on top of the messages of its protocol version.
+ */
+export type Capability = "delta-transfer" | "chunked-upload" | "compression" | "acks" | "encryption" | "file-hash" | "file-copy";
+
+/**
+ * The protocol of a device, exchanged along with the app ID.
+ */
+export interface ProtocolInfo {
+    version: number;
+    // The oldest version the device can still talk to
+    minVersion: number;
+    capabilities: Capability[];
+}
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+/**
+ * The definition of a message: the channel it is received on and the types of its data fields.
+ * Optional fields may also be null.
+ */
+interface MessageDefinition {
+    channel: "input" | "output";
+    required: Record<string, FieldType>;
+    optional?: Record<string, FieldType>;
+    // For requests, the type of their response, an ack by default
+    response?: string;
+}
+
+// Fields of the requests: their ID, the app ID of the device meant to handle them and the compression of the response
+const REQUEST_FIELDS: Record<string, FieldType> = { requestId: "string", appId: "string", compression: "string", retryWindow: "number" };
+
+/**
+ * The messages of the protocol, by type.
+ * The forwarded API requests are defined once for every type starting with `/api/`.
+ */
+const MESSAGES: Record<string, MessageDefinition> = {
+    "get-app-id": {
+        channel: "input",
+        required: {},
+        // The compression formats accepted by the sender, not the compression of the response
+        optional: { requestId: "string", compression: "array", protocol: "object", deviceName: "string" },
+        response: "app-id-response"
+    },
+    "reload-protyles": { channel: "input", required: {}, optional: REQUEST_FIELDS },
+    "reload-protyles-if-open": { channel: "input", required: { paths: "array" }, optional: REQUEST_FIELDS },
+    "get-dir-files": {
+        channel: "input",
+        required: { path: "string", excludedItems: "array", requestId: "string" },
+        // Older versions send no sync rules
+        optional: { ...REQUEST_FIELDS, syncRules: "object" },
+        response: "dir-files-response"
+    },
+    "get-block-signatures": {
+        channel: "input",
+        required: { path: "string", blockSize: "number", requestId: "string" },
+        optional: REQUEST_FIELDS,
+        response: "delta-response"
+    },
+    "get-delta": {
+        channel: "input",
+        required: { path: "string", blockSize: "number", signatures: "object", requestId: "string" },
+        optional: REQUEST_FIELDS,
+        response: "delta-response"
+    },
+    "apply-delta": {
+        channel: "input",
+        required: { path: "string", blockSize: "number", delta: "object", timestamp: "number", requestId: "string" },
+        optional: REQUEST_FIELDS,
+        response: "delta-response"
+    },
+    "assemble-transfer": {
+        channel: "input",
+        required: { dir: "string", requestId: "string" },
+        optional: REQUEST_FIELDS,
+        response: "transfer-response"
+    },
+    "get-file-hash": {
+        channel: "input",
+        required: { path: "string", requestId: "string" },
+        optional: REQUEST_FIELDS,
+        response: "file-hash-response"
+    },
+    "copy-files": {
+        channel: "input",
+        required: { copies: "array", requestId: "string" },
+        optional: REQUEST_FIELDS,
+        response: "copy-response"
+    },
+    "stage-file": {
+        channel: "input",
+        required: { path: "string", requestId: "string" },
+        optional: REQUEST_FIELDS,
+        response: "stage-response"
+    },
+    "/api/": {
+        channel: "input",
+        required: { requestData: "string" },
+        optional: REQUEST_FIELDS
+    },
+    "app-id-response": {
+        channel: "output",
+        required: { appId: "string" },
+        // Older versions answer without the request ID
+        optional: { requestId: "string", compression: "string", protocol: "object", deviceName: "string" }
+    },
+    "dir-files-response": {
+        channel: "output",
+        required: { requestId: "string" },
+        optional: { item: "object" }
+    },
+    "delta-response": {
+        channel: "output",
+        required: { requestId: "string" },
+        optional: { signatures: "object", delta: "object", ok: "boolean" }
+    },
+    "transfer-response": {
+        channel: "output",
+        required: { requestId: "string", ok: "boolean", missing: "array" }
+    },
+    "file-hash-response": {
+        channel: "output",
+        required: { requestId: "string" },
+        // No hash when the file does not exist
+        optional: { hash: "string" }
+    },
+    "copy-response": {
+        channel: "output",
+        required: { requestId: "string", copied: "array" }
+    },
+    "stage-response": {
+        channel: "output",
+        required: { requestId: "string" },
+        // No directory when the file does not exist
+        optional: { dir: "string" }
+    },
+    "ack": {
+        channel: "output",
+        required: { requestId: "string", ok: "boolean" },
+        optional: { error: "string" }
+    }
+};
+
+/**
+ * The versioned protocol of the WebSocket messages exchanged between devices.
+ * Devices exchange their protocol along with the app ID, and every message is checked against its definition on receipt.
+ */
+export class Protocol {
+    /**
+     * The version of the protocol, to increase when messages are added or changed.
+     * Version 1 is the protocol of the versions before it was versioned, version 3 acknowledges every request,
+     * version 4 stages files to download them encrypted, version 5 hashes and copies files on the device holding them.
+     */
+    static readonly VERSION = 5;
+
+    /**
+     * The oldest version this device can talk to.
+     */
+    static readonly MIN_VERSION = 1;
+
+    /**
+     * The optional features of this device.
+     */
+    static readonly CAPABILITIES: Capability[] = ["delta-transfer", "chunked-upload", "compression", "acks", "encryption", "file-hash", "file-copy"];
+
+    /**
+     * Get the protocol of this device, to send to the peers.
+     */
+    static getLocalInfo(): ProtocolInfo {
+        return { version: Protocol.VERSION, minVersion: Protocol.MIN_VERSION, capabilities: [...Protocol.CAPABILITIES] };
+    }
+
+    /**
+     * Read the protocol sent by a peer, older versions do not send any.
+     *
+     * @param data The protocol received with the app ID.
+     */
+    static fromHandshake(data: any): ProtocolInfo {
+        const version = typeof data?.version === "number" ? data.version : 1;
+
+        return {
+            version,
+            minVersion: typeof data?.minVersion === "number" ? data.minVersion : Math.min(version, Protocol.MIN_VERSION),
+            capabilities: Array.isArray(data?.capabilities) ? data.capabilities : []
+        };
+    }
+
+    /**
+     * Check whether this device and a peer can talk to each other.
+     *
+     * @param info The protocol of the peer.
+     */
+    static isCompatible(info: ProtocolInfo): boolean {
+        return info.version >= Protocol.MIN_VERSION && info.minVersion <= Protocol.VERSION;
+    }
+
+    /**
+     * Get the type of the response to a request.
+     *
+     * @param type The type of the request.
+     * @returns The type of the response, "ack" for the requests only acknowledged.
+     */
+    static getResponseType(type: string): string {
+        return MESSAGES[type.startsWith("/api/") ? "/api/" : type]?.response ?? "ack";
+    }
+
+    /**
+     * Check a received message against its definition.
+     *
+     * @param payload The received message.
+     * @param channel The channel the message was received on.
+     * @returns The reason why the message is invalid, or null if it is valid.
+     */
+    static validate(payload: Payload, channel: MessageDefinition["channel"]): string | null {
+        const definition = MESSAGES[payload.type.startsWith("/api/") ? "/api/" : payload.type];
+
+        if (!definition || definition.channel !== channel)
+            return `unknown message type ${payload.type}`;
+
+        if (typeof payload.data !== "object" || payload.data === null || Array.isArray(payload.data))
+            return `the data of ${payload.type} is not an object`;
+
+        for (const [field, type] of Object.entries(definition.required)) {
+            if (!Protocol.hasType(payload.data[field], type))
+                return `the field ${field} of ${payload.type} is not of type ${type}`;
+        }
+
+        for (const [field, type] of Object.entries(definition.optional || {})) {
+            const value = payload.data[field];
+            if (value !== undefined && value !== null && !Protocol.hasType(value, type))
+                return `the field ${field} of ${payload.type} is not of type ${type}`;
+        }
+
+        return null;
+    }
+
+    private static hasType(value: any, type: FieldType): boolean {
+        switch (type) {
+            case "array":
+                return Array.isArray(value);
+            case "object":
+                return typeof value === "object" && value !== null && !Array.isArray(value);
+            default:
+                return typeof value === type;
+        }
+    }
+}
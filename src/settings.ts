@@ -1,7 +1,9 @@
 import { SettingUtils } from "@/libs/setting-utils";
 import BetterSyncPlugin from ".";
-import { consoleError } from "@/logging";
+import { consoleError, consoleLog } from "@/logging";
 import { showMessage } from "siyuan";
+import { PeerConfig } from "@/sync";
+import { lsNotebooks } from "@/api";
 
 const STORAGE_NAME = "menu-config";
 
@@ -15,49 +17,56 @@ export class SettingsManager {
         this.settingUtils = new SettingUtils({
             plugin: this.plugin,
             name: STORAGE_NAME,
+            callback: () => this.plugin.syncManager?.init(),
         });
     }
 
     async setupSettings() {
         this.settingUtils.addItem({
-            key: "siyuanUrl",
-            value: "",
-            type: "textinput",
-            title: this.plugin.i18n.siyuanUrl,
-            description: this.plugin.i18n.siyuanUrlDesc,
-            action: {
-                callback: () => {
-                    this.settingUtils.takeAndSave("siyuanUrl");
-                    this.plugin.syncManager.init();
-                }
+            key: "peers",
+            value: [],
+            type: "custom",
+            title: this.plugin.i18n.peers,
+            description: this.plugin.i18n.peersDesc,
+            direction: "column",
+            createElement: (currentVal: PeerConfig[]) => {
+                const element = document.createElement("div");
+                element.className = "better-sync-peers fn__flex-1";
+                this.renderPeers(element, currentVal);
+                return element;
+            },
+            getEleVal: (ele: HTMLElement) => this.readPeers(ele),
+            setEleVal: (ele: HTMLElement, val: PeerConfig[]) => {
+                if (ele) this.renderPeers(ele, val);
             }
         });
 
         this.settingUtils.addItem({
-            key: "siyuanAPIKey",
-            value: "",
-            type: "textinput",
-            title: this.plugin.i18n.siyuanAPIKey,
-            description: this.plugin.i18n.siyuanAPIKeyDesc,
-            action: {
-                callback: () => {
-                    this.settingUtils.takeAndSave("siyuanAPIKey");
-                    this.plugin.syncManager.init();
-                }
+            key: "syncExcludedNotebooks",
+            value: [],
+            type: "custom",
+            title: this.plugin.i18n.syncExcludedNotebooks,
+            description: this.plugin.i18n.syncExcludedNotebooksDesc,
+            direction: "column",
+            createElement: (currentVal: string[]) => {
+                const element = document.createElement("div");
+                element.className = "better-sync-notebooks fn__flex-1";
+                this.renderExcludedNotebooks(element, currentVal);
+                return element;
+            },
+            getEleVal: (ele: HTMLElement) => this.readExcludedNotebooks(ele),
+            setEleVal: (ele: HTMLElement, val: string[]) => {
+                if (ele) this.renderExcludedNotebooks(ele, val);
             }
         });
 
         this.settingUtils.addItem({
-            key: "siyuanNickname",
+            key: "syncExcludedPaths",
             value: "",
-            type: "textinput",
-            title: this.plugin.i18n.siyuanNickname,
-            description: this.plugin.i18n.siyuanNicknameDesc,
-            action: {
-                callback: () => {
-                    this.settingUtils.takeAndSave("siyuanNickname");
-                }
-            }
+            type: "textarea",
+            title: this.plugin.i18n.syncExcludedPaths,
+            description: this.plugin.i18n.syncExcludedPathsDesc,
+            direction: "column"
         });
 
         this.settingUtils.addItem({
@@ -88,6 +97,22 @@ export class SettingsManager {
             }
         });
 
+        this.settingUtils.addItem({
+            key: "syncInterval",
+            value: 0,
+            type: "number",
+            title: this.plugin.i18n.syncInterval,
+            description: this.plugin.i18n.syncIntervalDesc
+        });
+
+        this.settingUtils.addItem({
+            key: "idleSyncDelay",
+            value: 0,
+            type: "number",
+            title: this.plugin.i18n.idleSyncDelay,
+            description: this.plugin.i18n.idleSyncDelayDesc
+        });
+
         this.settingUtils.addItem({
             key: "instantSync",
             value: false,
@@ -110,6 +135,14 @@ export class SettingsManager {
             description: this.plugin.i18n.transactionsDebounceTimeDesc
         });
 
+        this.settingUtils.addItem({
+            key: "maxClockSkew",
+            value: 5,
+            type: "number",
+            title: this.plugin.i18n.maxClockSkew,
+            description: this.plugin.i18n.maxClockSkewDesc
+        });
+
         this.settingUtils.addItem({
             key: "trackConflicts",
             value: true,
@@ -146,6 +179,20 @@ export class SettingsManager {
             description: this.plugin.i18n.minHoursBetweenSnapshotsDesc
         });
 
+        this.settingUtils.addItem({
+            key: "keepSyncJournal",
+            value: true,
+            type: "checkbox",
+            title: this.plugin.i18n.keepSyncJournal,
+            description: this.plugin.i18n.keepSyncJournalDesc,
+            action: {
+                callback: () => {
+                    let value = !this.settingUtils.get("keepSyncJournal");
+                    this.settingUtils.set("keepSyncJournal", value);
+                }
+            }
+        });
+
         this.settingUtils.addItem({
             key: "syncIconInBreadcrumb",
             value: false,
@@ -188,6 +235,71 @@ export class SettingsManager {
             }
         });
 
+        this.settingUtils.addItem({
+            key: "deltaSyncThreshold",
+            value: 1,
+            type: "number",
+            title: this.plugin.i18n.deltaSyncThreshold,
+            description: this.plugin.i18n.deltaSyncThresholdDesc
+        });
+
+        this.settingUtils.addItem({
+            key: "chunkedUploadThreshold",
+            value: 8,
+            type: "number",
+            title: this.plugin.i18n.chunkedUploadThreshold,
+            description: this.plugin.i18n.chunkedUploadThresholdDesc
+        });
+
+        this.settingUtils.addItem({
+            key: "compression",
+            value: "gzip",
+            type: "select",
+            title: this.plugin.i18n.compression,
+            description: this.plugin.i18n.compressionDesc,
+            options: {
+                none: this.plugin.i18n.compressionNone,
+                gzip: "gzip",
+                deflate: "deflate"
+            }
+        });
+
+        this.settingUtils.addItem({
+            key: "webSocketTimeout",
+            value: 5,
+            type: "number",
+            title: this.plugin.i18n.webSocketTimeout,
+            description: this.plugin.i18n.webSocketTimeoutDesc
+        });
+
+        this.settingUtils.addItem({
+            key: "webSocketRetries",
+            value: 2,
+            type: "number",
+            title: this.plugin.i18n.webSocketRetries,
+            description: this.plugin.i18n.webSocketRetriesDesc
+        });
+
+        this.settingUtils.addItem({
+            key: "encryptionPassphrase",
+            value: "",
+            type: "custom",
+            title: this.plugin.i18n.encryptionPassphrase,
+            description: this.plugin.i18n.encryptionPassphraseDesc,
+            createElement: (currentVal: string) => {
+                const element = document.createElement("input");
+                element.type = "password";
+                element.autocomplete = "new-password";
+                element.className = "b3-text-field fn__flex-center fn__size200";
+                element.value = currentVal || "";
+                return element;
+            },
+            getEleVal: (ele: HTMLInputElement) => ele.value,
+            setEleVal: (ele: HTMLInputElement, val: string) => {
+                if (ele) ele.value = val || "";
+            }
+        });
+
         this.settingUtils.addItem({
             key: "getLastSyncLog",
             value: "",
@@ -205,12 +317,147 @@ export class SettingsManager {
         });
 
         try {
-            await this.settingUtils.load();
+            const data = await this.settingUtils.load();
+            await this.migrateLegacyPeer(data);
         } catch (error) {
             consoleError("Error loading settings storage, probably empty config json:", error);
         }
     }
 
+    /**
+     * Convert the single peer settings used by older versions into the first entry of the peers list.
+     * @param data The raw settings data loaded from storage.
+     */
+    private async migrateLegacyPeer(data: any) {
+        const peers = this.settingUtils.get("peers") as PeerConfig[];
+        if (!data?.siyuanUrl || peers?.length > 0) return;
+
+        consoleLog("Migrating legacy peer settings to the peers list.");
+
+        await this.settingUtils.setAndSave("peers", [{
+            url: data.siyuanUrl,
+            key: data.siyuanAPIKey || "",
+            name: data.siyuanNickname || "",
+            enabled: true
+        }]);
+    }
+
+    /**
+     * Render the peers list editor inside the given element.
+     * @param element The container element of the peers setting.
+     * @param peers The peers to render.
+     */
+    private renderPeers(element: HTMLElement, peers: PeerConfig[] = []) {
+        element.innerHTML = "";
+
+        const list = document.createElement("div");
+        list.className = "better-sync-peers__list";
+        element.appendChild(list);
+
+        const addRow = (peer: PeerConfig) => {
+            const row = document.createElement("div");
+            row.className = "better-sync-peers__row fn__flex";
+            row.innerHTML = `<input class="b3-switch fn__flex-center" type="checkbox" data-field="enabled">
+<div class="fn__space"></div>
+<input class="b3-text-field fn__flex-1" data-field="url" placeholder="${this.plugin.i18n.siyuanUrl}">
+<div class="fn__space"></div>
+<input class="b3-text-field fn__flex-1" data-field="key" type="password" placeholder="${this.plugin.i18n.siyuanAPIKey}">
+<div class="fn__space"></div>
+<input class="b3-text-field fn__flex-1" data-field="name" placeholder="${this.plugin.i18n.siyuanNickname}">
+<div class="fn__space"></div>
+<button class="b3-button b3-button--outline fn__flex-center">${this.plugin.i18n.removePeer}</button>`;
+
+            (row.querySelector('[data-field="enabled"]') as HTMLInputElement).checked = peer.enabled ?? true;
+            (row.querySelector('[data-field="url"]') as HTMLInputElement).value = peer.url || "";
+            (row.querySelector('[data-field="key"]') as HTMLInputElement).value = peer.key || "";
+            (row.querySelector('[data-field="name"]') as HTMLInputElement).value = peer.name || "";
+            row.querySelector("button").onclick = () => row.remove();
+
+            row.querySelectorAll("input").forEach(input => {
+                input.addEventListener("keydown", (e) => {
+                    if (e.key === "Enter") {
+                        e.preventDefault();
+                        e.stopImmediatePropagation();
+                    }
+                });
+            });
+
+            list.appendChild(row);
+        };
+
+        peers.forEach(peer => addRow(peer));
+
+        const addButton = document.createElement("button");
+        addButton.className = "b3-button b3-button--outline fn__flex-center";
+        addButton.innerText = this.plugin.i18n.addPeer;
+        addButton.onclick = () => addRow({ url: "", key: "", name: "", enabled: true });
+        element.appendChild(addButton);
+    }
+
+    /**
+     * Render a toggle for each local notebook, unchecked when the notebook is excluded from sync.
+     * @param element The container element of the excluded notebooks setting.
+     * @param excludedNotebooks The IDs of the excluded notebooks.
+     */
+    private async renderExcludedNotebooks(element: HTMLElement, excludedNotebooks: string[] = []) {
+        element.innerHTML = "";
+
+        const notebooks = (await lsNotebooks())?.notebooks || [];
+
+        for (const notebook of notebooks) {
+            const row = document.createElement("label");
+            row.className = "better-sync-notebooks__row fn__flex";
+            row.innerHTML = `<span class="fn__flex-1 fn__flex-center"></span>
+<span class="fn__space"></span>
+<input class="b3-switch fn__flex-center" type="checkbox">`;
+            row.querySelector("span").textContent = notebook.name;
+
+            const checkbox = row.querySelector("input");
+            checkbox.dataset.notebookId = notebook.id;
+            checkbox.checked = !excludedNotebooks.includes(notebook.id);
+
+            element.appendChild(row);
+        }
+    }
+
+    /**
+     * Read the excluded notebooks from the toggles.
+     * Notebooks that have not been rendered keep their current value.
+     * @param element The container element of the excluded notebooks setting.
+     * @returns The IDs of the notebooks excluded from sync.
+     */
+    private readExcludedNotebooks(element: HTMLElement): string[] {
+        const excludedNotebooks = new Set<string>(this.settingUtils.get("syncExcludedNotebooks") || []);
+        if (!element) return Array.from(excludedNotebooks);
+
+        element.querySelectorAll("input[data-notebook-id]").forEach((checkbox: HTMLInputElement) => {
+            if (checkbox.checked)
+                excludedNotebooks.delete(checkbox.dataset.notebookId);
+            else
+                excludedNotebooks.add(checkbox.dataset.notebookId);
+        });
+
+        return Array.from(excludedNotebooks);
+    }
+
+    /**
+     * Read the peers list from the editor element.
+     * @param element The container element of the peers setting.
+     * @returns The list of configured peers, skipping the ones without a URL.
+     */
+    private readPeers(element: HTMLElement): PeerConfig[] {
+        if (!element) return this.settingUtils.get("peers") || [];
+
+        const rows = Array.from(element.querySelectorAll(".better-sync-peers__row"));
+
+        return rows.map(row => ({
+            url: (row.querySelector('[data-field="url"]') as HTMLInputElement).value.trim().replace(/\/+$/, ""),
+            key: (row.querySelector('[data-field="key"]') as HTMLInputElement).value.trim(),
+            name: (row.querySelector('[data-field="name"]') as HTMLInputElement).value.trim(),
+            enabled: (row.querySelector('[data-field="enabled"]') as HTMLInputElement).checked
+        })).filter(peer => peer.url !== "");
+    }
+
     onLayoutReady() {
         this.settingUtils.load();
     }
@@ -218,4 +465,14 @@ export class SettingsManager {
     getPref = (key: string) => {
         return this.settingUtils.get(key);
     }
+
+    /**
+     * Get the configured peers.
+     * @param enabledOnly Whether to only return the enabled peers.
+     * @returns The list of peer configurations.
+     */
+    getPeers(enabledOnly: boolean = true): PeerConfig[] {
+        const peers = (this.settingUtils.get("peers") || []) as PeerConfig[];
+        return enabledOnly ? peers.filter(peer => peer.enabled) : peers;
+    }
 }
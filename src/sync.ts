@@ -1,9 +1,28 @@
 export * from "./sync/conflict-handler";
+export * from "./sync/conflict-registry";
+export * from "./sync/conflict-panel";
+export * from "./sync/document-merger";
+export * from "./sync/data-merger";
 export * from "./sync/sync";
 export * from "./sync/sync-utils";
+export * from "./sync/sync-scheduler";
+export * from "./sync/outbox";
+export * from "./sync/peer-monitor";
 export * from "./sync/websocket";
+export * from "./sync/websocket-rpc";
 export * from "./sync/sync-targets";
+export * from "./sync/sync-rules";
+export * from "./sync/sync-preview";
+export * from "./sync/sync-progress";
+export * from "./sync/sync-run";
+export * from "./sync/sync-status-panel";
 export * from "./sync/history";
+export * from "./sync/hash-manifest";
+export * from "./sync/delta-sync";
+export * from "./sync/chunked-transfer";
+export * from "./sync/tombstones";
+export * from "./sync/sync-journal";
+export * from "./sync/sync-lock";
 export * from "./sync/remote";
 export * from "./sync/storage-item";
 export * from "./sync/constants";
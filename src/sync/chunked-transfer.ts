@@ -0,0 +1,356 @@
+import { getFileBlob, putFile, readDir, removeFile } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { Compression } from "@/libs/compression";
+import { Encryption } from "@/libs/encryption";
+import { HashManifest, Remote, SYNC_TRANSFERS_DIR, SyncUtils } from "@/sync";
+
+/**
+ * The description of a staged transfer, written next to its parts.
+ */
+export interface TransferManifest {
+    path: string;
+    size: number;
+    chunkSize: number;
+    // The modification time to set on the assembled file, in milliseconds
+    timestamp: number;
+    hash: string;
+    // The hashes of the parts before compression
+    chunks: string[];
+    compression: CompressionFormat | null;
+    // Whether the indexes are updated once the file is assembled, true when missing
+    index?: boolean;
+}
+
+/**
+ * The result of the assembly of a staged transfer.
+ */
+export interface AssemblyResult {
+    ok: boolean;
+    // The parts which are missing or do not match their hash, to send again
+    missing: number[];
+}
+
+/**
+ * Uploads large files in parts, staged in the sync config directory of the destination until they are all there.
+ * The parts already staged are not sent again, so an interrupted upload resumes from the last acknowledged part.
+ * The destination assembles the file itself, as the API cannot append to a file.
+ * With end-to-end encryption, the parts and their manifest are encrypted, and files are also staged to be downloaded.
+ */
+export class ChunkedTransfer {
+    /**
+     * The size of the parts, in bytes.
+     */
+    static readonly CHUNK_SIZE = 1024 * 1024;
+
+    /**
+     * How many times a part is sent before giving up, and the delay before the first retry in milliseconds.
+     */
+    static readonly RETRIES = 3;
+    static readonly RETRY_DELAY = 2000;
+
+    /**
+     * How long to wait for the destination to assemble a file, in milliseconds.
+     */
+    static readonly ASSEMBLY_TIMEOUT = 2 * 60 * 1000;
+
+    private static readonly MANIFEST_FILE = "transfer.json";
+
+    /**
+     * Check whether the hashes used to verify the parts are available.
+     */
+    static isSupported(): boolean {
+        return !!crypto?.subtle;
+    }
+
+    /**
+     * Get the staging directory of a file, the same for every upload of the path so that uploads can be resumed.
+     *
+     * @param path The path of the file.
+     * @param download Whether the file is staged to be downloaded, in another directory than its uploads.
+     */
+    static async getTransferDir(path: string, download: boolean = false): Promise<string> {
+        const hash = await HashManifest.computeHash(new Blob([download ? `download:${path}` : path]));
+        return `${SYNC_TRANSFERS_DIR}${hash.substring(0, 16)}/`;
+    }
+
+    /**
+     * Stage the parts of a file on the destination, skipping those already staged for the same content.
+     *
+     * @param path The path of the file.
+     * @param content The content of the file.
+     * @param destination The remote to upload to.
+     * @param timestamp The modification time to set on the assembled file, in milliseconds.
+     * @param compression The format to compress the parts with, negotiated with the destination, or null.
+     * @param onChunk Called with the size of each part sent.
+     * @param signal Aborts the upload when the sync is cancelled, the abort error is thrown.
+     * @param encryptionKey The key to encrypt the parts with, or null if encryption is disabled.
+     * @param index Whether the destination updates its indexes once the file is assembled.
+     * @returns The staging directory, to assemble.
+     */
+    static async upload(
+        path: string,
+        content: Blob,
+        destination: Remote,
+        timestamp: number,
+        compression: CompressionFormat | null,
+        onChunk: (bytes: number) => void,
+        signal?: AbortSignal,
+        encryptionKey: CryptoKey | null = null,
+        index: boolean = true
+    ): Promise<string> {
+        const dir = await ChunkedTransfer.getTransferDir(path);
+        await ChunkedTransfer.stageParts(dir, path, content, destination, timestamp, compression, onChunk, signal, encryptionKey, index);
+        return dir;
+    }
+
+    /**
+     * Stage the encrypted parts of a local file, for a peer to download them.
+     *
+     * @param path The path of the file.
+     * @param remote The local remote.
+     * @param compression The format to compress the parts with, negotiated with the peer, or null.
+     * @param encryptionKey The key to encrypt the parts with.
+     * @returns The staging directory, or null if the file does not exist.
+     */
+    static async stage(path: string, remote: Remote, compression: CompressionFormat | null, encryptionKey: CryptoKey): Promise<string | null> {
+        const content = await getFileBlob(path, remote.url, SyncUtils.getHeaders(remote.key));
+        if (!content) return null;
+
+        const dir = await ChunkedTransfer.getTransferDir(path, true);
+        await ChunkedTransfer.stageParts(dir, path, content, remote, 0, compression, () => {}, undefined, encryptionKey);
+        return dir;
+    }
+
+    /**
+     * Download a file staged by a peer, once every part is verified, then remove the staging directory.
+     *
+     * @param dir The staging directory.
+     * @param remote The peer.
+     * @param encryptionKey The key to decrypt the parts with.
+     * @returns The content of the file, or null if a part is missing or corrupted.
+     */
+    static async download(dir: string, remote: Remote, encryptionKey: CryptoKey): Promise<Blob | null> {
+        try {
+            const { manifest, content } = await ChunkedTransfer.readParts(dir, remote, encryptionKey);
+            if (!content) consoleWarn(`Cannot download ${manifest?.path ?? dir} from ${remote.name}, parts are missing or corrupted.`);
+            return content;
+        } finally {
+            await ChunkedTransfer.removeTransfer(dir, remote);
+        }
+    }
+
+    private static async stageParts(
+        dir: string,
+        path: string,
+        content: Blob,
+        destination: Remote,
+        timestamp: number,
+        compression: CompressionFormat | null,
+        onChunk: (bytes: number) => void,
+        signal: AbortSignal | undefined,
+        encryptionKey: CryptoKey | null,
+        index: boolean = true
+    ) {
+        const chunks: string[] = [];
+
+        for (let offset = 0; offset < content.size; offset += ChunkedTransfer.CHUNK_SIZE)
+            chunks.push(await HashManifest.computeHash(content.slice(offset, offset + ChunkedTransfer.CHUNK_SIZE)));
+
+        const manifest: TransferManifest = {
+            path,
+            size: content.size,
+            chunkSize: ChunkedTransfer.CHUNK_SIZE,
+            timestamp,
+            hash: await HashManifest.computeHash(content),
+            chunks,
+            compression,
+            index
+        };
+
+        const staged = await ChunkedTransfer.getStagedParts(dir, manifest, destination, encryptionKey);
+        if (staged.size > 0)
+            consoleLog(`Resuming the upload of ${path} to ${destination.name}, ${staged.size} of ${chunks.length} parts already sent.`);
+
+        // The manifest holds the path of the file, it is encrypted too
+        const manifestContent = new Blob([JSON.stringify(manifest)]);
+        await ChunkedTransfer.putWithRetries(
+            `${dir}${ChunkedTransfer.MANIFEST_FILE}`,
+            encryptionKey ? await Encryption.encrypt(manifestContent, encryptionKey) : manifestContent,
+            destination,
+            signal
+        );
+
+        let originalSize = 0;
+        let sentSize = 0;
+
+        for (let index = 0; index < chunks.length; index++) {
+            if (staged.has(index)) continue;
+            signal?.throwIfAborted();
+
+            const chunk = content.slice(index * ChunkedTransfer.CHUNK_SIZE, (index + 1) * ChunkedTransfer.CHUNK_SIZE);
+            const compressed = compression ? await Compression.compress(chunk, compression) : chunk;
+            const part = encryptionKey ? await Encryption.encrypt(compressed, encryptionKey) : compressed;
+
+            await ChunkedTransfer.putWithRetries(`${dir}${index}.part`, part, destination, signal);
+            onChunk(part.size);
+
+            originalSize += chunk.size;
+            sentSize += part.size;
+        }
+
+        if (compression && originalSize > 0)
+            Compression.logRatio(`the parts of ${path}`, originalSize, sentSize, compression);
+    }
+
+    /**
+     * Assemble a staged file on the local device, once every part is verified, then remove the staging directory.
+     * Parts which do not match their hash are removed, so that they are sent again.
+     *
+     * @param dir The staging directory.
+     * @param remote The local remote.
+     * @param encryptionKey The key to decrypt the parts with, or null if encryption is disabled.
+     */
+    static async assemble(dir: string, remote: Remote, encryptionKey: CryptoKey | null = null): Promise<AssemblyResult> {
+        try {
+            const { manifest, content, missing } = await ChunkedTransfer.readParts(dir, remote, encryptionKey);
+            if (!manifest) return { ok: false, missing: [] };
+
+            if (missing.length > 0) {
+                consoleWarn(`Cannot assemble ${manifest.path}, parts ${missing.join(", ")} are missing or corrupted.`);
+                return { ok: false, missing };
+            }
+
+            if (!content) {
+                consoleWarn(`Cannot assemble ${manifest.path}, the content does not match its hash.`);
+                await ChunkedTransfer.removeTransfer(dir, remote);
+                return { ok: false, missing: [] };
+            }
+
+            const file = new File([content], manifest.path.split("/").pop(), { lastModified: manifest.timestamp });
+            if (manifest.index === false)
+                await putFile(manifest.path, false, file, remote.url, SyncUtils.getHeaders(remote.key), manifest.timestamp);
+            else if (!await SyncUtils.putFile(manifest.path, file, remote.url, remote.key, manifest.timestamp))
+                return { ok: false, missing: [] };
+
+            await ChunkedTransfer.removeTransfer(dir, remote);
+            consoleLog(`Assembled ${manifest.path} from ${manifest.chunks.length} parts.`);
+            return { ok: true, missing: [] };
+        } catch (error) {
+            consoleError(`Error assembling the transfer in ${dir}:`, error);
+            return { ok: false, missing: [] };
+        }
+    }
+
+    /**
+     * Read and verify the staged parts of a file.
+     * Parts which do not match their hash are removed.
+     *
+     * @returns The manifest, null if there is none, the content, null if a part is missing or the content does not match its hash,
+     * and the missing parts.
+     */
+    private static async readParts(
+        dir: string,
+        remote: Remote,
+        encryptionKey: CryptoKey | null
+    ): Promise<{ manifest: TransferManifest | null, content: Blob | null, missing: number[] }> {
+        const manifest = await ChunkedTransfer.readManifest(dir, remote, encryptionKey);
+        if (!manifest) return { manifest: null, content: null, missing: [] };
+
+        const parts: Blob[] = [];
+        const missing: number[] = [];
+
+        for (let index = 0; index < manifest.chunks.length; index++) {
+            const partPath = `${dir}${index}.part`;
+            const staged = await getFileBlob(partPath, remote.url, SyncUtils.getHeaders(remote.key)).catch((): Blob | null => null);
+
+            // A corrupted part may not even decrypt or decompress
+            const decrypted = staged && encryptionKey
+                ? await Encryption.decrypt(staged, encryptionKey).catch((): Blob | null => null)
+                : staged;
+            const part = decrypted && manifest.compression
+                ? await Compression.decompress(decrypted, manifest.compression).catch((): Blob | null => null)
+                : decrypted;
+
+            if (!part || await HashManifest.computeHash(part) !== manifest.chunks[index]) {
+                if (staged) await removeFile(partPath, remote.url, SyncUtils.getHeaders(remote.key));
+                missing.push(index);
+                continue;
+            }
+
+            parts.push(part);
+        }
+
+        if (missing.length > 0) return { manifest, content: null, missing };
+
+        const content = new Blob(parts);
+        if (content.size !== manifest.size || await HashManifest.computeHash(content) !== manifest.hash)
+            return { manifest, content: null, missing: [] };
+
+        return { manifest, content, missing: [] };
+    }
+
+    /**
+     * Get the parts already staged for the same content.
+     * The parts staged for another version of the file are removed.
+     */
+    private static async getStagedParts(dir: string, manifest: TransferManifest, remote: Remote, encryptionKey: CryptoKey | null): Promise<Set<number>> {
+        try {
+            const staged = await ChunkedTransfer.readManifest(dir, remote, encryptionKey);
+            if (!staged) return new Set();
+
+            if (staged.hash !== manifest.hash || staged.chunkSize !== manifest.chunkSize || (staged.compression ?? null) !== manifest.compression) {
+                await ChunkedTransfer.removeTransfer(dir, remote);
+                return new Set();
+            }
+
+            const files = await readDir(dir, remote.url, SyncUtils.getHeaders(remote.key));
+            return new Set((files || [])
+                .map(file => file.name.match(/^(\d+)\.part$/))
+                .filter(Boolean)
+                .map(match => Number(match[1])));
+        } catch (error) {
+            consoleWarn(`Failed to read the staged parts in ${dir}, starting over:`, error);
+            return new Set();
+        }
+    }
+
+    private static async readManifest(dir: string, remote: Remote, encryptionKey: CryptoKey | null): Promise<TransferManifest | null> {
+        const files = await readDir(dir, remote.url, SyncUtils.getHeaders(remote.key));
+        if (!files || !files.some(file => file.name === ChunkedTransfer.MANIFEST_FILE)) return null;
+
+        const blob = await getFileBlob(`${dir}${ChunkedTransfer.MANIFEST_FILE}`, remote.url, SyncUtils.getHeaders(remote.key));
+        if (!blob) return null;
+
+        const content = encryptionKey ? await Encryption.decrypt(blob, encryptionKey) : blob;
+        return JSON.parse(await content.text());
+    }
+
+    /**
+     * Write a part, retrying with an increasing delay as slow links fail often.
+     * The parts are not indexed, unlike the files written by the sync.
+     */
+    private static async putWithRetries(path: string, content: Blob, remote: Remote, signal?: AbortSignal) {
+        const name = path.split("/").pop();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const file = new File([content], name, { lastModified: Date.now() });
+                await putFile(path, false, file, remote.url, SyncUtils.getHeaders(remote.key), Date.now(), signal);
+                return;
+            } catch (error) {
+                if (signal?.aborted || attempt >= ChunkedTransfer.RETRIES) throw error;
+
+                consoleWarn(`Failed to send ${path} to ${remote.name}, attempt ${attempt} of ${ChunkedTransfer.RETRIES}:`, error);
+                await new Promise(resolve => setTimeout(resolve, ChunkedTransfer.RETRY_DELAY * attempt));
+            }
+        }
+    }
+
+    private static async removeTransfer(dir: string, remote: Remote) {
+        try {
+            await removeFile(dir.replace(/\/$/, ""), remote.url, SyncUtils.getHeaders(remote.key));
+        } catch (error) {
+            consoleWarn(`Failed to remove the staging directory ${dir}:`, error);
+        }
+    }
+}
@@ -1,9 +1,14 @@
-import { createDocWithMd, getFileBlob, getHPathByID, getPathByID, renameDocByID } from "@/api";
+import { createDocWithMd, getFileBlob, getHPathByID, getPathByID, readDir, reloadFiletree, renameDocByID } from "@/api";
 import { consoleError, consoleLog } from "@/logging";
-import { Remote, SyncUtils } from "@/sync";
+import { ConflictEntry, ConflictRegistry, ConflictResolution, Remote, SyncHistory, SyncUtils } from "@/sync";
 import { showMessage } from "siyuan";
 
 export class ConflictHandler {
+    /**
+     * How long to wait for the download of a file to compare, in milliseconds.
+     */
+    private static readonly DOWNLOAD_TIMEOUT = 60 * 1000;
+
     /**
      * Formats a Date object into a string with the format "YYYY-MM-DD HH:mm:ss".
      *
@@ -34,6 +39,7 @@ export class ConflictHandler {
      * @param blob - The Blob object containing the file data.
      * @param olderFileTimestamp - The timestamp of the older file in seconds.
      * @param remotes - An array of exactly two Remote objects containing remote server information.
+     * @returns The ID and the storage path of the conflict document.
      */
     static async createConflictFile(
         notebookId: string,
@@ -41,7 +47,7 @@ export class ConflictHandler {
         blob: Blob,
         olderFileTimestamp: number,
         remotes: [Remote, Remote]
-    ) {
+    ): Promise<{ id: string, path: string }> {
         const timestamp = olderFileTimestamp * 1000; // Convert to milliseconds
         const originalNoteTitle = humanReadablePath.split("/").pop();
         const conflictNoteTitle = `${originalNoteTitle} - Conflict ${this.getFormattedDate(new Date(timestamp))}`;
@@ -63,30 +69,37 @@ export class ConflictHandler {
         let file = new File([blob], `${conflictDocId}.sy`, { lastModified: timestamp });
 
         /*
-        * Function to create the conflict file in each remote server.
+        * Function to create the conflict file in the local device.
         * It uploads the file as is, which means that the title would not be changed.
         * The file gets renamed later to include the conflict title.
         * After that, the file is updated again to ensure the correct timestamp.
         */
-        async function createConflictFileInRemote(index: number) {
-            await SyncUtils.putFile(conflictPathString, file, remotes[index].url, remotes[index].key, timestamp);
-            await renameDocByID(conflictDocId, conflictNoteTitle, remotes[index].url, SyncUtils.getHeaders(remotes[index].key));
+        async function createConflictFileInRemote(remote: Remote) {
+            await SyncUtils.writeFile(conflictPathString, file, remote, timestamp);
+            await renameDocByID(conflictDocId, conflictNoteTitle, remote.url, SyncUtils.getHeaders(remote.key));
 
             file = new File(
-                [await getFileBlob(conflictPathString, remotes[index].url, SyncUtils.getHeaders(remotes[index].key))],
+                [await SyncUtils.readFile(conflictPathString, remote)],
                 `${conflictDocId}.sy`,
                 { lastModified: timestamp }
             );
-            await SyncUtils.putFile(conflictPathString, file, remotes[index].url, remotes[index].key, timestamp);
+            await SyncUtils.writeFile(conflictPathString, file, remote, timestamp);
         }
 
-        const promises = remotes.map((_, index) => {
-            return createConflictFileInRemote(index).catch((error) => {
-                consoleError(`Error creating conflict file`, error);
-            });
-        });
+        // The renamed file is copied to the peer, the peer is not asked to rename it as its title would be sent in plaintext
+        const local = remotes.find(remote => remote.isLocal()) ?? remotes[0];
+        try {
+            await createConflictFileInRemote(local);
+        } catch (error) {
+            consoleError(`Error creating conflict file`, error);
+        }
+
+        await Promise.all(remotes
+            .filter(remote => remote !== local)
+            .map(remote => SyncUtils.writeFile(conflictPathString, file, remote, timestamp))
+        );
 
-        await Promise.all(promises);
+        return { id: conflictDocId, path: conflictPathString };
     }
 
     /**
@@ -116,34 +129,57 @@ export class ConflictHandler {
 
     /**
      * Detects if there is a conflict between two files.
+     * The content hashes are compared when both are known, otherwise the two files are downloaded to compare them.
      *
      * @param path - The path of the file being synced.
      * @param remotes - An array of exactly two Remote objects containing remote server information.
+     * @param getHashes - Gets the content hashes of the file on the two remotes, null when unknown.
+     *                    Only called when the file changed on both sides, as hashing reads the files.
      * @returns A Promise that resolves to an object indicating whether a conflict was detected,
-     *          and if so, includes the older remote and the older file blob.
+     *          and if so, includes the older remote and the older file blob when it was downloaded.
      */
     static async detectConflict(
         path: string,
-        remotes: [Remote, Remote]
+        remotes: [Remote, Remote],
+        getHashes?: () => Promise<[string | null, string | null]>
     ): Promise<{ hasConflict: boolean; olderRemote?: Remote; olderFileBlob?: Blob }> {
         if (!remotes[0].file || !remotes[1].file) {
             return { hasConflict: false };
         }
 
-        if (remotes[0].lastSyncTime > 0 && remotes[1].lastSyncTime > 0 &&
-            remotes[0].file.timestamp > remotes[0].lastSyncTime && remotes[1].file.timestamp > remotes[1].lastSyncTime &&
+        // Use the last time these two remotes synced with each other, not with any other peer
+        const lastSyncTimes = [
+            SyncHistory.getLastSyncWithRemote(remotes[0], remotes[1].instanceId),
+            SyncHistory.getLastSyncWithRemote(remotes[1], remotes[0].instanceId)
+        ];
+
+        if (lastSyncTimes[0] > 0 && lastSyncTimes[1] > 0 &&
+            remotes[0].file.timestamp > lastSyncTimes[0] && remotes[1].file.timestamp > lastSyncTimes[1] &&
             remotes[0].file.timestamp !== remotes[1].file.timestamp) {
 
             consoleLog(`Potential conflict detected for file: ${path}`);
 
             // print timestamps and last sync times
-            consoleLog(`File One Timestamp: ${remotes[0].file.timestamp}, Last Sync Time One: ${remotes[0].lastSyncTime}`);
-            consoleLog(`File Two Timestamp: ${remotes[1].file.timestamp}, Last Sync Time Two: ${remotes[1].lastSyncTime}`);
+            consoleLog(`File One Timestamp: ${remotes[0].file.timestamp}, Last Sync Time One: ${lastSyncTimes[0]}`);
+            consoleLog(`File Two Timestamp: ${remotes[1].file.timestamp}, Last Sync Time Two: ${lastSyncTimes[1]}`);
+
+            const firstIsNewer = remotes[0].toLocalTime(remotes[0].file.timestamp) > remotes[1].toLocalTime(remotes[1].file.timestamp);
+            const olderRemote = firstIsNewer ? remotes[1] : remotes[0];
+
+            const hashes = getHashes ? await getHashes() : [null, null];
+            if (hashes[0] && hashes[1]) {
+                if (hashes[0] === hashes[1]) {
+                    consoleLog(`Files are identical, no conflict.`);
+                    return { hasConflict: false };
+                }
+
+                return { hasConflict: true, olderRemote };
+            }
 
             // Check if the two files are actually different
             const [fileOne, fileTwo] = await Promise.all([
-                getFileBlob(path, remotes[0].url, SyncUtils.getHeaders(remotes[0].key)),
-                getFileBlob(path, remotes[1].url, SyncUtils.getHeaders(remotes[1].key))
+                SyncUtils.readFile(path, remotes[0], ConflictHandler.DOWNLOAD_TIMEOUT),
+                SyncUtils.readFile(path, remotes[1], ConflictHandler.DOWNLOAD_TIMEOUT)
             ]);
 
             if (await this.compareBlobsAsText(fileOne, fileTwo)) {
@@ -151,8 +187,7 @@ export class ConflictHandler {
                 return { hasConflict: false };
             }
 
-            const olderRemote = remotes[0].file.timestamp > remotes[1].file.timestamp ? remotes[1] : remotes[0];
-            const olderFileBlob = remotes[0].file.timestamp > remotes[1].file.timestamp ? fileTwo : fileOne;
+            const olderFileBlob = firstIsNewer ? fileTwo : fileOne;
 
             return {
                 hasConflict: true,
@@ -170,7 +205,7 @@ export class ConflictHandler {
      * @param path - The path of the file being synced.
      * @param remotes - An array of exactly two Remote objects containing remote server information.
      * @param olderRemote - The Remote object for the older file.
-     * @param olderFileBlob - The blob of the older file.
+     * @param olderFileBlob - The blob of the older file, downloaded from the older remote if not given.
      * @param i18n - The internationalization object for localized messages.
      * @returns A Promise that resolves to a boolean indicating whether the conflict was handled successfully.
      */
@@ -178,7 +213,7 @@ export class ConflictHandler {
         path: string,
         remotes: [Remote, Remote],
         olderRemote: Remote,
-        olderFileBlob: Blob,
+        olderFileBlob: Blob | undefined,
         i18n: any
     ): Promise<boolean> {
         const fileRes = remotes[0].file || remotes[1].file;
@@ -200,12 +235,13 @@ export class ConflictHandler {
 
         showMessage(i18n.conflictDetectedForDocument.replace("{{documentName}}", humanReadablePath.split("/").pop()), 5000);
 
+        olderFileBlob ??= await SyncUtils.readFile(path, olderRemote, ConflictHandler.DOWNLOAD_TIMEOUT);
         if (!olderFileBlob) {
             consoleLog(`File ${path} not found in ${olderRemote.url}`);
             return true;
         }
 
-        await this.createConflictFile(
+        const conflictDoc = await this.createConflictFile(
             notebookId,
             humanReadablePath,
             olderFileBlob,
@@ -213,6 +249,15 @@ export class ConflictHandler {
             remotes
         );
 
+        await ConflictRegistry.addConflict({
+            conflictDocId: conflictDoc.id,
+            conflictPath: conflictDoc.path,
+            originalDocId: docId,
+            originalPath: path,
+            title: humanReadablePath,
+            createdAt: Math.floor(Date.now() / 1000)
+        }, remotes);
+
         return true;
     }
 
@@ -222,19 +267,83 @@ export class ConflictHandler {
      * @param path - The path of the file being synced.
      * @param remotes - An array of exactly two Remote objects containing remote server information.
      * @param i18n - The internationalization object for localized messages.
+     * @param getHashes - Gets the content hashes of the file on the two remotes, only called when the file changed on both sides.
      * @returns A Promise that resolves to a boolean indicating whether a conflict was detected and handled.
      */
     static async handleConflictDetection(
         path: string,
         remotes: [Remote, Remote],
-        i18n: any
+        i18n: any,
+        getHashes?: () => Promise<[string | null, string | null]>
     ): Promise<boolean> {
-        const detectionResult = await this.detectConflict(path, remotes);
+        const detectionResult = await this.detectConflict(path, remotes, getHashes);
 
         if (!detectionResult.hasConflict) {
             return false;
         }
 
-        return await this.handleConflict(path, remotes, detectionResult.olderRemote!, detectionResult.olderFileBlob!, i18n);
+        return await this.handleConflict(path, remotes, detectionResult.olderRemote!, detectionResult.olderFileBlob, i18n);
+    }
+
+    /**
+     * Resolves a registered conflict.
+     * The kept version is written on the local device only, the next sync brings it to the peers.
+     * The conflict document is deleted from every remote holding it, except when keeping both versions.
+     *
+     * @param entry - The conflict to resolve.
+     * @param resolution - Which version of the document to keep.
+     * @param remotes - The local remote first, followed by the peers.
+     */
+    static async resolveConflict(
+        entry: ConflictEntry,
+        resolution: ConflictResolution,
+        remotes: Remote[]
+    ) {
+        consoleLog(`Resolving conflict ${entry.conflictPath} with ${ConflictResolution[resolution]}`);
+
+        if (resolution === ConflictResolution.KeepTheirs) {
+            const local = remotes[0];
+            const [original, conflict] = await Promise.all([
+                getFileBlob(entry.originalPath, local.url, SyncUtils.getHeaders(local.key)),
+                getFileBlob(entry.conflictPath, local.url, SyncUtils.getHeaders(local.key))
+            ]);
+
+            if (!original || !conflict)
+                throw new Error(`Document ${entry.originalPath} or its conflict version not found`);
+
+            // Keep the identity and title of the original document, with the blocks of the conflict version
+            const document = JSON.parse(await original.text());
+            document.Children = JSON.parse(await conflict.text()).Children || [];
+
+            const timestamp = Date.now();
+            const file = new File([JSON.stringify(document)], entry.originalPath.split("/").pop(), { lastModified: timestamp });
+            await SyncUtils.putFile(entry.originalPath, file, local.url, local.key, timestamp);
+        }
+
+        if (resolution !== ConflictResolution.KeepBoth)
+            await Promise.all(remotes.map(remote => this.deleteConflictFile(entry, remote)));
+
+        await ConflictRegistry.removeConflict(entry.conflictDocId, remotes);
+    }
+
+    /**
+     * Deletes a conflict document from a remote, if it exists there.
+     *
+     * @param entry - The conflict whose document is deleted.
+     * @param remote - The remote information containing URL and key.
+     */
+    private static async deleteConflictFile(entry: ConflictEntry, remote: Remote) {
+        try {
+            const parentPath = entry.conflictPath.replace(/\/[^/]+$/, "");
+            const fileName = entry.conflictPath.split("/").pop();
+
+            const dir = await readDir(parentPath, remote.url, SyncUtils.getHeaders(remote.key));
+            if (!dir?.some(file => file.name === fileName)) return;
+
+            await SyncUtils.deleteFile(entry.conflictPath, remote);
+            await reloadFiletree(remote.url, SyncUtils.getHeaders(remote.key));
+        } catch (error) {
+            consoleError(`Error deleting conflict document from ${remote.name}:`, error);
+        }
     }
 }
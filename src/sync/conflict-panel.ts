@@ -0,0 +1,114 @@
+import { Dialog, openTab, showMessage } from "siyuan";
+import BetterSyncPlugin from "..";
+import { ConflictEntry, ConflictResolution } from "@/sync";
+import { consoleError } from "@/logging";
+
+export class ConflictPanel {
+    /**
+     * Show the unresolved conflicts in a dialog, with the actions to resolve each of them.
+     *
+     * @param plugin The plugin instance.
+     */
+    static async show(plugin: BetterSyncPlugin) {
+        const i18n = plugin.i18n;
+
+        const dialog = new Dialog({
+            title: i18n.conflictsTitle,
+            content: `<div class="b3-dialog__content better-sync-conflicts"></div>`,
+            width: "min(720px, 92vw)"
+        });
+
+        const container = dialog.element.querySelector(".better-sync-conflicts") as HTMLElement;
+        await ConflictPanel.render(plugin, container);
+    }
+
+    /**
+     * Render the list of conflicts, it is rendered again after each resolution.
+     */
+    private static async render(plugin: BetterSyncPlugin, container: HTMLElement) {
+        const i18n = plugin.i18n;
+        const conflicts = await plugin.syncManager.getConflicts();
+
+        container.innerHTML = "";
+
+        if (conflicts.length === 0) {
+            const empty = document.createElement("div");
+            empty.className = "b3-label";
+            empty.textContent = i18n.conflictsEmpty;
+            container.appendChild(empty);
+            return;
+        }
+
+        for (const conflict of conflicts) {
+            const row = document.createElement("div");
+            row.className = "better-sync-conflicts__row fn__flex";
+
+            const label = document.createElement("div");
+            label.className = "fn__flex-1";
+
+            const title = document.createElement("div");
+            title.textContent = conflict.title;
+
+            const description = document.createElement("div");
+            description.className = "b3-label__text";
+            description.textContent = i18n.conflictCreatedAt.replace(
+                "{{date}}",
+                new Date(conflict.createdAt * 1000).toLocaleString()
+            );
+
+            label.append(title, description);
+            row.appendChild(label);
+
+            const actions: [string, () => Promise<void>][] = [
+                [i18n.conflictOpen, async () => ConflictPanel.openSideBySide(plugin, conflict)],
+                [i18n.conflictKeepMine, async () => ConflictPanel.resolve(plugin, container, conflict, ConflictResolution.KeepMine)],
+                [i18n.conflictKeepTheirs, async () => ConflictPanel.resolve(plugin, container, conflict, ConflictResolution.KeepTheirs)],
+                [i18n.conflictKeepBoth, async () => ConflictPanel.resolve(plugin, container, conflict, ConflictResolution.KeepBoth)]
+            ];
+
+            for (const [text, action] of actions) {
+                const button = document.createElement("button");
+                button.className = "b3-button b3-button--outline fn__flex-center";
+                button.textContent = text;
+                button.addEventListener("click", action);
+
+                const space = document.createElement("span");
+                space.className = "fn__space";
+
+                row.append(space, button);
+            }
+
+            container.appendChild(row);
+        }
+    }
+
+    /**
+     * Open the current document and its conflict version next to each other.
+     */
+    private static async openSideBySide(plugin: BetterSyncPlugin, conflict: ConflictEntry) {
+        await openTab({ app: plugin.app, doc: { id: conflict.originalDocId } });
+        await openTab({ app: plugin.app, doc: { id: conflict.conflictDocId }, position: "right" });
+    }
+
+    /**
+     * Resolve a conflict and refresh the list.
+     */
+    private static async resolve(
+        plugin: BetterSyncPlugin,
+        container: HTMLElement,
+        conflict: ConflictEntry,
+        resolution: ConflictResolution
+    ) {
+        container.querySelectorAll("button").forEach(button => button.disabled = true);
+
+        try {
+            await plugin.syncManager.resolveConflict(conflict, resolution);
+            showMessage(plugin.i18n.conflictResolved.replace("{{documentName}}", conflict.title.split("/").pop()), 4000);
+        } catch (error) {
+            consoleError(`Error resolving conflict ${conflict.conflictPath}:`, error);
+            showMessage(plugin.i18n.conflictResolveFailed.replace("{{error}}", error.message), 6000, "error");
+        }
+
+        await ConflictPanel.render(plugin, container);
+    }
+}
@@ -0,0 +1,122 @@
+import { readDir } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { CONFLICTS_FILE, Remote, SYNC_CONFIG_DIR, SyncUtils } from "@/sync";
+
+/**
+ * The version of a document kept when resolving a conflict.
+ */
+export enum ConflictResolution {
+    KeepMine,
+    KeepTheirs,
+    KeepBoth
+}
+
+/**
+ * A conflict document waiting to be resolved.
+ */
+export interface ConflictEntry {
+    conflictDocId: string;
+    conflictPath: string;
+    originalDocId: string;
+    originalPath: string;
+    title: string;
+    createdAt: number;
+}
+
+export class ConflictRegistry {
+    /**
+     * Pending registry updates, chained so that concurrent conflicts do not overwrite each other.
+     */
+    private static queue: Promise<void> = Promise.resolve();
+
+    /**
+     * Load the unresolved conflicts from disk for a specific remote.
+     *
+     * @param remote The remote information containing URL and key.
+     * @returns The list of unresolved conflicts.
+     */
+    static async loadConflicts(remote: Remote): Promise<ConflictEntry[]> {
+        try {
+            const dir = await readDir(SYNC_CONFIG_DIR, remote.url, SyncUtils.getHeaders(remote.key));
+
+            if (!dir || !dir.some(file => file.name === CONFLICTS_FILE)) {
+                consoleLog(`No conflict registry found for ${remote.name}`);
+                return [];
+            }
+
+            const path = `${SYNC_CONFIG_DIR}${CONFLICTS_FILE}`;
+            const blob = await SyncUtils.readFile(path, remote);
+
+            if (!blob) {
+                consoleWarn(`Failed to fetch conflict registry for ${remote.name}`);
+                return [];
+            }
+
+            return JSON.parse(await blob.text());
+        } catch (error) {
+            consoleError(`Error loading conflict registry for ${remote.name}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Save the unresolved conflicts to disk for a specific remote.
+     *
+     * @param remote The remote information containing URL and key.
+     * @param conflicts The list of unresolved conflicts.
+     */
+    static async saveConflicts(remote: Remote, conflicts: ConflictEntry[]): Promise<void> {
+        try {
+            const path = `${SYNC_CONFIG_DIR}${CONFLICTS_FILE}`;
+            const file = new File([JSON.stringify(conflicts, null, 2)], CONFLICTS_FILE, { lastModified: Date.now() });
+
+            await SyncUtils.writeFile(path, file, remote);
+            consoleLog(`Saved conflict registry for ${remote.name} (${conflicts.length} conflicts)`);
+        } catch (error) {
+            consoleError(`Error saving conflict registry for ${remote.name}:`, error);
+        }
+    }
+
+    /**
+     * Load, update and save the conflict registry of each remote, one update at a time.
+     *
+     * @param remotes The remotes to update.
+     * @param update The function returning the updated list of conflicts.
+     */
+    private static updateConflicts(remotes: Remote[], update: (conflicts: ConflictEntry[]) => ConflictEntry[]): Promise<void> {
+        const task = ConflictRegistry.queue.then(async () => {
+            await Promise.allSettled(remotes.map(async remote => {
+                const conflicts = await ConflictRegistry.loadConflicts(remote);
+                await ConflictRegistry.saveConflicts(remote, update(conflicts));
+            }));
+        });
+
+        ConflictRegistry.queue = task.catch(() => {});
+        return task;
+    }
+
+    /**
+     * Register a new conflict document on the given remotes.
+     *
+     * @param entry The conflict to register.
+     * @param remotes The remotes where the conflict document was created.
+     */
+    static async addConflict(entry: ConflictEntry, remotes: Remote[]) {
+        await ConflictRegistry.updateConflicts(remotes, conflicts => [
+            ...conflicts.filter(conflict => conflict.conflictDocId !== entry.conflictDocId),
+            entry
+        ]);
+    }
+
+    /**
+     * Remove a resolved conflict from the registry of the given remotes.
+     *
+     * @param conflictDocId The ID of the conflict document.
+     * @param remotes The remotes to update.
+     */
+    static async removeConflict(conflictDocId: string, remotes: Remote[]) {
+        await ConflictRegistry.updateConflicts(remotes, conflicts =>
+            conflicts.filter(conflict => conflict.conflictDocId !== conflictDocId)
+        );
+    }
+}
@@ -1,5 +1,15 @@
 export const SYNC_CONFIG_DIR = "data/.siyuan/sync/"
 export const SYNC_LOGS_DIR = `${SYNC_CONFIG_DIR}logs/`
+export const SYNC_BASES_DIR = `${SYNC_CONFIG_DIR}bases/`
+export const SYNC_JOURNAL_DIR = `${SYNC_CONFIG_DIR}journal/`
+export const SYNC_TRANSFERS_DIR = `${SYNC_CONFIG_DIR}transfers/`
+export const SYNC_RUNS_DIR = `${SYNC_CONFIG_DIR}runs/`
 export const SYNC_HISTORY_FILE = "sync-history.json"
+export const HASH_MANIFEST_FILE = "file-hashes.json"
+export const CONFLICTS_FILE = "conflicts.json"
+export const TOMBSTONES_FILE = "tombstones.json"
+export const FILE_INDEX_FILE = "file-index.json"
+export const JOURNAL_FILE = "journal.json"
+export const OUTBOX_FILE = "outbox.json"
 export const INSTANCE_ID_FILE = "instance-id"
 export const LOCK_FILE = "lock"
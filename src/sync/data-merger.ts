@@ -0,0 +1,232 @@
+import { showMessage } from "siyuan";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { MsgPack } from "@/libs/msgpack";
+import { ConflictHandler, DocumentMerger, HashManifest, Remote, SyncUtils } from "@/sync";
+
+export class DataMerger {
+    /**
+     * Check whether a file is an attribute view database.
+     */
+    static isAttributeView(filePath: string): boolean {
+        return /^data\/storage\/av\/[^/]+\.json$/.test(filePath);
+    }
+
+    /**
+     * Check whether a file belongs to the flashcard decks.
+     */
+    static isFlashcardFile(filePath: string): boolean {
+        return filePath.startsWith("data/storage/riff/");
+    }
+
+    /**
+     * Check whether a file is an asset.
+     */
+    static isAsset(filePath: string): boolean {
+        return filePath.startsWith("data/assets/");
+    }
+
+    /**
+     * Check whether a file is merged when it changed on both remotes, from the version of the last sync.
+     */
+    static isMergeable(filePath: string): boolean {
+        return DataMerger.isAttributeView(filePath) || DataMerger.isFlashcardFile(filePath);
+    }
+
+    /**
+     * Three-way merge of a value changed on different remotes, from its version of the last sync.
+     * A value changed on a single side takes the change, including the deletion of keys and items.
+     * Objects are merged key by key, arrays of objects with an ID are merged by ID,
+     * arrays of strings are merged keeping the order of the newer side.
+     * A value deleted on one side and changed on the other is kept with its changes.
+     * For anything else changed on both sides, the newer side wins.
+     * Without a base version, nothing is removed and items deleted on a single side are kept.
+     *
+     * @param base The value of the last sync, undefined if unknown or missing.
+     * @param newer The value from the most recently modified remote, undefined if missing.
+     * @param older The value from the other remote, undefined if missing.
+     * @returns The merged value, undefined if it is deleted.
+     */
+    static mergeValues(base: any, newer: any, older: any): any {
+        if (DataMerger.isEqual(newer, older) || DataMerger.isEqual(base, older)) return newer;
+        if (DataMerger.isEqual(base, newer)) return older;
+
+        if (newer === undefined) return older;
+        if (older === undefined) return newer;
+
+        if (DataMerger.isPlainObject(newer) && DataMerger.isPlainObject(older)) {
+            const baseObject = DataMerger.isPlainObject(base) ? base : {};
+            const result: Record<string, any> = {};
+
+            for (const key of new Set([...Object.keys(newer), ...Object.keys(older)])) {
+                const value = DataMerger.mergeValues(DataMerger.getOwn(baseObject, key), DataMerger.getOwn(newer, key), DataMerger.getOwn(older, key));
+                if (value !== undefined) result[key] = value;
+            }
+            return result;
+        }
+
+        if (Array.isArray(newer) && Array.isArray(older)) {
+            const hasIds = (items: any) => Array.isArray(items) && items.every(item => DataMerger.isPlainObject(item) && typeof item.id === "string");
+            const baseItems: any[] = Array.isArray(base) ? base : [];
+
+            if (hasIds(newer) && hasIds(older)) {
+                const [baseById, newerById, olderById] = [hasIds(base) ? baseItems : [], newer, older]
+                    .map(items => new Map(items.map(item => [item.id, item])));
+                const ids = new Set([...newerById.keys(), ...olderById.keys()]);
+
+                return Array.from(ids)
+                    .map(id => DataMerger.mergeValues(baseById.get(id), newerById.get(id), olderById.get(id)))
+                    .filter(item => item !== undefined);
+            }
+
+            if ([...newer, ...older].every(item => typeof item === "string")) {
+                const removed = (item: string) => baseItems.includes(item) && !(newer.includes(item) && older.includes(item));
+                return [...newer, ...older.filter(item => !newer.includes(item))].filter(item => !removed(item));
+            }
+        }
+
+        return newer;
+    }
+
+    /**
+     * Merge an attribute view, keeping the keys and rows changed on both remotes.
+     *
+     * @param base The content of the last synced version, null if unknown.
+     * @param newer The content of the most recently modified version.
+     * @param older The content of the other version.
+     * @returns The merged content.
+     */
+    static async mergeAttributeView(base: Blob | null, newer: Blob, older: Blob): Promise<Blob> {
+        const [baseValue, newerValue, olderValue] = await Promise.all([base, newer, older].map(async blob =>
+            blob ? JSON.parse(await blob.text()) : undefined
+        ));
+
+        const merged = DataMerger.mergeValues(baseValue, newerValue, olderValue);
+        return new Blob([JSON.stringify(merged)], { type: "application/json" });
+    }
+
+    /**
+     * Merge a flashcard file, keeping the cards changed on both remotes.
+     * Decks and cards are stored as MessagePack, the review state of a card changed on both sides comes from the newer side.
+     *
+     * @param base The content of the last synced version, null if unknown.
+     * @param newer The content of the most recently modified version.
+     * @param older The content of the other version.
+     * @returns The merged content.
+     * @throws If a version would not be encoded back as SiYuan wrote it.
+     */
+    static async mergeFlashcards(base: Blob | null, newer: Blob, older: Blob): Promise<Blob> {
+        const [baseValue, newerValue, olderValue] = await Promise.all([base, newer, older].map(async blob => {
+            if (!blob) return undefined;
+
+            const bytes = new Uint8Array(await blob.arrayBuffer());
+            const value = MsgPack.decode(bytes);
+
+            // A merge must not rewrite the parts of the file it does not change
+            if (!DataMerger.isSameBytes(new Uint8Array(MsgPack.encode(value)), bytes))
+                throw new Error("The flashcard file is not encoded back unchanged");
+            return value;
+        }));
+
+        return new Blob([MsgPack.encode(DataMerger.mergeValues(baseValue, newerValue, olderValue))]);
+    }
+
+    /**
+     * Resolve a conflict on a data file, using the strategy matching its format.
+     * Attribute views and flashcards are merged from the version of the last sync and written on both remotes.
+     * Assets cannot be merged, so the older version is kept next to the newer one.
+     *
+     * @param filePath The path of the file.
+     * @param remotes The newer remote first, followed by the older one.
+     * @param i18n The internationalization object for localized messages.
+     * @returns True if the file was merged, false if the newer version still needs to be synced.
+     */
+    static async mergeAndSync(filePath: string, remotes: [Remote, Remote], i18n: any): Promise<boolean> {
+        if (DataMerger.isAsset(filePath)) {
+            await DataMerger.keepBothAssets(filePath, remotes, i18n);
+            return false;
+        }
+
+        if (!DataMerger.isMergeable(filePath)) return false;
+        const merge = DataMerger.isAttributeView(filePath) ? DataMerger.mergeAttributeView : DataMerger.mergeFlashcards;
+
+        try {
+            const [newer, older] = await Promise.all(remotes.map(remote =>
+                SyncUtils.readFile(filePath, remote)
+            ));
+            if (!newer || !older) return false;
+
+            const base = await DocumentMerger.loadBaseVersion(filePath, remotes);
+            if (!base) consoleLog(`No base version of ${filePath}, the items deleted on a single remote are kept.`);
+
+            const merged = await merge(base, newer, older);
+
+            const timestamp = Math.floor(Date.now() / 1000);
+            const file = new File([merged], filePath.split("/").pop(), { lastModified: timestamp * 1000 });
+
+            const results = await Promise.all(remotes.map(remote =>
+                SyncUtils.writeFile(filePath, file, remote, timestamp * 1000)
+            ));
+            if (results.includes(false)) return false;
+
+            const hash = await HashManifest.computeHash(merged);
+            if (hash) HashManifest.recordSyncedFile(filePath, hash, remotes.map(remote => [remote, timestamp] as [Remote, number]));
+            await DocumentMerger.saveBaseVersion(filePath, merged, remotes);
+
+            consoleLog(`Merged concurrent changes of ${filePath} on ${remotes[0].name} and ${remotes[1].name}.`);
+            return true;
+        } catch (error) {
+            consoleError(`Error merging ${filePath}, the newer version will be kept:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Keep the older version of an asset as a copy next to the original, on both remotes.
+     *
+     * @param filePath The path of the asset.
+     * @param remotes The newer remote first, followed by the older one.
+     * @param i18n The internationalization object for localized messages.
+     */
+    private static async keepBothAssets(filePath: string, remotes: [Remote, Remote], i18n: any) {
+        const older = remotes[1];
+        const blob = await SyncUtils.readFile(filePath, older);
+        if (!blob) {
+            consoleWarn(`Asset ${filePath} not found on ${older.name}, nothing to keep.`);
+            return;
+        }
+
+        const timestamp = older.file?.timestamp ?? Math.floor(Date.now() / 1000);
+        const date = ConflictHandler.getFormattedDate(new Date(timestamp * 1000)).replace(/\D/g, "");
+        const copyPath = filePath.replace(/(\.[^./]+)?$/, `-conflict-${date}$1`);
+        const file = new File([blob], copyPath.split("/").pop(), { lastModified: timestamp * 1000 });
+
+        await Promise.all(remotes.map(remote =>
+            SyncUtils.writeFile(copyPath, file, remote, timestamp * 1000)
+        ));
+
+        consoleLog(`Kept the version of ${filePath} from ${older.name} as ${copyPath}.`);
+        showMessage(i18n.conflictDetectedForAsset.replace("{{assetName}}", copyPath.split("/").pop()), 5000);
+    }
+
+    private static isPlainObject(value: any): boolean {
+        return value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+    }
+
+    private static getOwn(object: Record<string, any>, key: string): any {
+        return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+    }
+
+    /**
+     * Compare two decoded values by their encoding, which covers binary values, numbers with a type and maps.
+     */
+    private static isEqual(first: any, second: any): boolean {
+        if (first === second) return true;
+        if (first === undefined || second === undefined) return false;
+
+        return DataMerger.isSameBytes(new Uint8Array(MsgPack.encode(first)), new Uint8Array(MsgPack.encode(second)));
+    }
+
+    private static isSameBytes(first: Uint8Array, second: Uint8Array): boolean {
+        return first.length === second.length && first.every((byte, index) => byte === second[index]);
+    }
+}
@@ -0,0 +1,259 @@
+import { Base64 } from "@/libs/base64";
+import { HashManifest } from "@/sync";
+
+/**
+ * The signatures of the blocks of a file, sent to the device holding the newer version.
+ * Each block has a weak rolling checksum and a strong hash, the last block may be shorter.
+ */
+export interface BlockSignatures {
+    blockSize: number;
+    size: number;
+    blocks: [number, string][];
+}
+
+/**
+ * An instruction to rebuild a file: a run of blocks to copy from the older version as `[first block, count]`,
+ * or literal bytes encoded in base64.
+ */
+export type DeltaInstruction = [number, number] | string;
+
+/**
+ * The changes between two versions of a file, with the hash of the newer version to check the result.
+ */
+export interface FileDelta {
+    size: number;
+    hash: string;
+    instructions: DeltaInstruction[];
+}
+
+/**
+ * rsync-like delta transfer: the device holding the older version of a file sends the signatures of its blocks,
+ * the newer version is then described as copied blocks and literal bytes, so only the changed parts travel.
+ */
+export class DeltaSync {
+    /**
+     * The bounds of the block size, in bytes.
+     */
+    static readonly MIN_BLOCK_SIZE = 2 * 1024;
+    static readonly MAX_BLOCK_SIZE = 64 * 1024;
+
+    /**
+     * Above this part of the file size sent as literal bytes, the whole file is transferred instead.
+     * Literal bytes are base64 encoded, a third larger than the file.
+     */
+    static readonly MAX_LITERAL_RATIO = 0.7;
+
+    /**
+     * How long to wait for the peer to compute signatures or a delta, in milliseconds.
+     */
+    static readonly REQUEST_TIMEOUT = 60 * 1000;
+
+    private static readonly MODULUS = 65536;
+
+    /**
+     * Check whether the hashes used by the delta transfer are available.
+     */
+    static isSupported(): boolean {
+        return !!crypto?.subtle;
+    }
+
+    /**
+     * Choose the block size for a file, about the square root of its size like rsync.
+     *
+     * @param size The size of the file in bytes.
+     */
+    static getBlockSize(size: number): number {
+        const blockSize = Math.ceil(Math.sqrt(size) / 1024) * 1024;
+        return Math.min(Math.max(blockSize, DeltaSync.MIN_BLOCK_SIZE), DeltaSync.MAX_BLOCK_SIZE);
+    }
+
+    /**
+     * Compute the signatures of the blocks of the older version of a file.
+     *
+     * @param data The content of the file.
+     * @param blockSize The size of the blocks in bytes.
+     */
+    static async computeSignatures(data: Uint8Array<ArrayBuffer>, blockSize: number): Promise<BlockSignatures> {
+        const blocks: [number, string][] = [];
+
+        for (let offset = 0; offset < data.length; offset += blockSize) {
+            const block = data.subarray(offset, Math.min(offset + blockSize, data.length));
+            blocks.push([DeltaSync.weakChecksum(block), await DeltaSync.strongHash(block)]);
+        }
+
+        return { blockSize, size: data.length, blocks };
+    }
+
+    /**
+     * Compute the delta turning the version described by the signatures into a newer version.
+     * A window slides over the newer version one byte at a time, a block matches when both its checksum and hash match.
+     *
+     * @param data The content of the newer version.
+     * @param signatures The signatures of the older version.
+     */
+    static async computeDelta(data: Uint8Array<ArrayBuffer>, signatures: BlockSignatures): Promise<FileDelta> {
+        const { blockSize, blocks } = signatures;
+        const instructions: DeltaInstruction[] = [];
+
+        const candidates: Map<number, number[]> = new Map();
+        blocks.forEach(([weak], index) => {
+            // The last block is shorter, it is only looked for at the end of the file
+            if (index === blocks.length - 1 && signatures.size % blockSize !== 0) return;
+            if (!candidates.has(weak)) candidates.set(weak, []);
+            candidates.get(weak).push(index);
+        });
+
+        const pushLiteral = (start: number, end: number) => {
+            if (end > start) instructions.push(Base64.encode(data.subarray(start, end)));
+        };
+
+        const pushCopy = (index: number) => {
+            const last = instructions[instructions.length - 1];
+            if (Array.isArray(last) && last[0] + last[1] === index)
+                last[1]++;
+            else
+                instructions.push([index, 1]);
+        };
+
+        let literalStart = 0;
+        let offset = 0;
+        let [a, b] = DeltaSync.checksumParts(data.subarray(0, blockSize));
+
+        while (offset + blockSize <= data.length) {
+            const matches = candidates.get(DeltaSync.combine(a, b));
+
+            if (matches) {
+                const strong = await DeltaSync.strongHash(data.subarray(offset, offset + blockSize));
+                const index = matches.find(index => blocks[index][1] === strong);
+
+                if (index !== undefined) {
+                    pushLiteral(literalStart, offset);
+                    pushCopy(index);
+
+                    offset += blockSize;
+                    literalStart = offset;
+                    [a, b] = DeltaSync.checksumParts(data.subarray(offset, offset + blockSize));
+                    continue;
+                }
+            }
+
+            // Roll the window by one byte
+            if (offset + blockSize < data.length) {
+                const removed = data[offset];
+                const added = data[offset + blockSize];
+                a = DeltaSync.mod(a - removed + added);
+                b = DeltaSync.mod(b - blockSize * removed + a);
+            }
+            offset++;
+        }
+
+        // The last block of the older version may still end the newer version
+        const lastIndex = blocks.length - 1;
+        const lastLength = signatures.size - lastIndex * blockSize;
+        const tailStart = data.length - lastLength;
+
+        if (lastIndex >= 0 && lastLength > 0 && lastLength < blockSize && tailStart >= literalStart) {
+            const tail = data.subarray(tailStart);
+            if (DeltaSync.weakChecksum(tail) === blocks[lastIndex][0] && await DeltaSync.strongHash(tail) === blocks[lastIndex][1]) {
+                pushLiteral(literalStart, tailStart);
+                pushCopy(lastIndex);
+                literalStart = data.length;
+            }
+        }
+
+        pushLiteral(literalStart, data.length);
+
+        return { size: data.length, hash: await DeltaSync.hash(data), instructions };
+    }
+
+    /**
+     * Rebuild the newer version of a file from the older one and a delta.
+     *
+     * @param base The content of the older version.
+     * @param delta The delta computed against the signatures of the older version.
+     * @param blockSize The size of the blocks of the signatures.
+     * @returns The newer version, or null if it does not match the hash of the delta.
+     */
+    static async applyDelta(base: Uint8Array<ArrayBuffer>, delta: FileDelta, blockSize: number): Promise<Uint8Array<ArrayBuffer> | null> {
+        const result = new Uint8Array(delta.size);
+        let offset = 0;
+
+        for (const instruction of delta.instructions) {
+            const part = typeof instruction === "string"
+                ? Base64.decode(instruction)
+                : base.subarray(instruction[0] * blockSize, Math.min((instruction[0] + instruction[1]) * blockSize, base.length));
+
+            if (offset + part.length > result.length) return null;
+
+            result.set(part, offset);
+            offset += part.length;
+        }
+
+        if (offset !== result.length || await DeltaSync.hash(result) !== delta.hash) return null;
+
+        return result;
+    }
+
+    /**
+     * Get the number of bytes sent as literals by a delta, once decoded.
+     */
+    static getLiteralSize(delta: FileDelta): number {
+        return delta.instructions.reduce((total, instruction) =>
+            typeof instruction === "string"
+                ? total + instruction.length * 3 / 4 - (instruction.match(/=*$/)[0].length)
+                : total, 0);
+    }
+
+    /**
+     * Check whether a delta is worth sending instead of the whole file.
+     */
+    static isWorthSending(delta: FileDelta): boolean {
+        return DeltaSync.getLiteralSize(delta) <= delta.size * DeltaSync.MAX_LITERAL_RATIO;
+    }
+
+    /**
+     * Hash the whole content of a file, like the hash manifest.
+     */
+    static async hash(data: Uint8Array<ArrayBuffer>): Promise<string | null> {
+        return HashManifest.computeHash(new Blob([data]));
+    }
+
+    /**
+     * Compute the rolling checksum of a block, an Adler-32 variant as used by rsync.
+     */
+    private static weakChecksum(block: Uint8Array<ArrayBuffer>): number {
+        const [a, b] = DeltaSync.checksumParts(block);
+        return DeltaSync.combine(a, b);
+    }
+
+    private static checksumParts(block: Uint8Array<ArrayBuffer>): [number, number] {
+        let a = 0;
+        let b = 0;
+
+        for (let i = 0; i < block.length; i++) {
+            a += block[i];
+            b += (block.length - i) * block[i];
+        }
+
+        return [DeltaSync.mod(a), DeltaSync.mod(b)];
+    }
+
+    private static combine(a: number, b: number): number {
+        return (b * DeltaSync.MODULUS + a) >>> 0;
+    }
+
+    private static mod(value: number): number {
+        return ((value % DeltaSync.MODULUS) + DeltaSync.MODULUS) % DeltaSync.MODULUS;
+    }
+
+    /**
+     * Hash a block, the first 64 bits of its SHA-1 are enough as the whole file is checked at the end.
+     */
+    private static async strongHash(block: Uint8Array<ArrayBuffer>): Promise<string> {
+        const digest = await crypto.subtle.digest("SHA-1", block);
+
+        return Array.from(new Uint8Array(digest, 0, 8))
+            .map(byte => byte.toString(16).padStart(2, "0"))
+            .join("");
+    }
+}
@@ -0,0 +1,290 @@
+import { readDir } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { HashManifest, Remote, SYNC_BASES_DIR, SyncUtils } from "@/sync";
+
+/**
+ * A block of a .sy document, flattened out of the block tree.
+ * The content holds the block itself and the nodes without an ID before its child blocks, the child blocks are referenced by ID.
+ * The nodes without an ID after the child blocks, such as the closing marker of a super block, are kept apart to stay last.
+ */
+interface FlatBlock {
+    content: any;
+    trailing: any[];
+    key: string;
+    parentId: string | null;
+    childIds: string[];
+}
+
+type FlatDocument = Map<string, FlatBlock>;
+
+export class DocumentMerger {
+    /**
+     * Get the path where the base version of a document or a data file is stored.
+     *
+     * @param filePath The path of the file, e.g. `data/<notebook>/<id>.sy`.
+     * @returns The path of the base version.
+     */
+    static getBasePath(filePath: string): string {
+        return `${SYNC_BASES_DIR}${filePath.replace(/^data\//, "")}`;
+    }
+
+    /**
+     * Store the last synced version of a document or a mergeable data file on the given remotes.
+     * The file is written without updating the indexes, as it is not a document of the workspace.
+     *
+     * @param filePath The path of the document.
+     * @param content The synced content of the document.
+     * @param remotes The remotes where the base version is stored.
+     */
+    static async saveBaseVersion(filePath: string, content: Blob, remotes: Remote[]) {
+        const basePath = DocumentMerger.getBasePath(filePath);
+        const file = new File([content], basePath.split("/").pop(), { lastModified: Date.now() });
+
+        await Promise.allSettled(remotes.map(async remote => {
+            if (!await SyncUtils.writeFile(basePath, file, remote, file.lastModified, false))
+                consoleWarn(`Failed to store the base version of ${filePath} on ${remote.name}`);
+        }));
+    }
+
+    /**
+     * Load the last synced version of a document or a mergeable data file.
+     * A base version is only used if its hash matches the last synced hash of both remotes,
+     * as it may have been stored while syncing with another peer.
+     *
+     * @param filePath The path of the document.
+     * @param remotes The pair of remotes being synced.
+     * @returns The base version, or null if no valid base version is available.
+     */
+    static async loadBaseVersion(filePath: string, remotes: [Remote, Remote]): Promise<Blob | null> {
+        const syncedHash = HashManifest.getSyncedHash(filePath, remotes);
+        if (!syncedHash) {
+            consoleLog(`No common synced hash for ${filePath}, cannot find a base version.`);
+            return null;
+        }
+
+        const basePath = DocumentMerger.getBasePath(filePath);
+        const parentPath = basePath.replace(/\/[^/]+$/, "");
+        const fileName = basePath.split("/").pop();
+
+        for (const remote of remotes) {
+            const dir = await readDir(parentPath, remote.url, SyncUtils.getHeaders(remote.key));
+            if (!dir?.some(file => file.name === fileName)) continue;
+
+            const blob = await SyncUtils.readFile(basePath, remote);
+            if (blob && await HashManifest.computeHash(blob) === syncedHash)
+                return blob;
+        }
+
+        consoleLog(`No valid base version found for ${filePath}.`);
+        return null;
+    }
+
+    /**
+     * Merge the two versions of a document changed on both remotes, and write the result on both of them.
+     *
+     * @param filePath The path of the document.
+     * @param remotes The pair of remotes being synced.
+     * @returns True if the document was merged, false if a conflict document is needed.
+     */
+    static async mergeAndSync(filePath: string, remotes: [Remote, Remote]): Promise<boolean> {
+        if (!filePath.endsWith(".sy")) return false;
+
+        try {
+            const base = await DocumentMerger.loadBaseVersion(filePath, remotes);
+            if (!base) return false;
+
+            const [ours, theirs] = await Promise.all(remotes.map(remote =>
+                SyncUtils.readFile(filePath, remote)
+            ));
+            if (!ours || !theirs) return false;
+
+            const merged = DocumentMerger.mergeDocuments(
+                JSON.parse(await base.text()),
+                JSON.parse(await ours.text()),
+                JSON.parse(await theirs.text())
+            );
+
+            if (!merged) {
+                consoleLog(`Document ${filePath} has conflicting block changes, merge not possible.`);
+                return false;
+            }
+
+            const timestamp = Math.floor(Date.now() / 1000);
+            const content = new Blob([JSON.stringify(merged)], { type: "application/json" });
+            const file = new File([content], filePath.split("/").pop(), { lastModified: timestamp * 1000 });
+
+            const results = await Promise.all(remotes.map(remote =>
+                SyncUtils.writeFile(filePath, file, remote, timestamp * 1000)
+            ));
+            if (results.includes(false)) return false;
+
+            const hash = await HashManifest.computeHash(content);
+            if (hash) HashManifest.recordSyncedFile(filePath, hash, remotes.map(remote => [remote, timestamp] as [Remote, number]));
+            await DocumentMerger.saveBaseVersion(filePath, content, remotes);
+
+            consoleLog(`Merged concurrent changes of ${filePath} on ${remotes[0].name} and ${remotes[1].name}.`);
+            return true;
+        } catch (error) {
+            consoleError(`Error merging ${filePath}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Three-way merge of a .sy document by block ID.
+     * Changes made on a single side are applied, the merge fails if the same block changed on both sides.
+     *
+     * @param base The block tree of the last synced version.
+     * @param ours The block tree of the first remote.
+     * @param theirs The block tree of the second remote.
+     * @returns The merged block tree, or null if the versions conflict.
+     */
+    static mergeDocuments(base: any, ours: any, theirs: any): any | null {
+        if (!base?.ID || base.ID !== ours?.ID || base.ID !== theirs?.ID) return null;
+
+        const [baseBlocks, ourBlocks, theirBlocks] = [base, ours, theirs].map(root => DocumentMerger.flatten(root));
+        if (!baseBlocks || !ourBlocks || !theirBlocks) return null;
+
+        const ids = new Set([...ourBlocks.keys(), ...theirBlocks.keys(), ...baseBlocks.keys()]);
+        const merged: FlatDocument = new Map();
+
+        for (const id of ids) {
+            const [baseBlock, ourBlock, theirBlock] = [baseBlocks, ourBlocks, theirBlocks].map(blocks => blocks.get(id));
+
+            const content = DocumentMerger.resolve(baseBlock?.key, ourBlock?.key, theirBlock?.key);
+            if (!content) {
+                consoleLog(`Block ${id} changed on both sides.`);
+                return null;
+            }
+
+            // Deleted on one side and untouched on the other
+            if (content.value === undefined) continue;
+
+            const parent = DocumentMerger.resolve(baseBlock?.parentId, ourBlock?.parentId, theirBlock?.parentId);
+            if (!parent) {
+                consoleLog(`Block ${id} moved to different parents on both sides.`);
+                return null;
+            }
+
+            // With equal content, keep the most recent update time
+            const candidates = [ourBlock, theirBlock].filter(block => block?.key === content.value);
+            const block = candidates.sort((a, b) =>
+                (b.content.Properties?.updated || "").localeCompare(a.content.Properties?.updated || "")
+            )[0];
+
+            merged.set(id, { ...block, parentId: parent.value ?? null, childIds: [] });
+        }
+
+        // Order the children of each block, starting from the side which changed the order
+        for (const [id, block] of merged) {
+            const children = new Set(Array.from(merged.entries())
+                .filter(([_, child]) => child.parentId === id)
+                .map(([childId]) => childId));
+
+            if (children.size === 0) continue;
+
+            const [baseOrder, ourOrder, theirOrder] = [baseBlocks, ourBlocks, theirBlocks].map(blocks =>
+                (blocks.get(id)?.childIds || []).filter(childId => children.has(childId))
+            );
+
+            const ourOrderChanged = ourOrder.join() !== baseOrder.join();
+            const [primary, secondary] = ourOrderChanged ? [ourOrder, theirOrder] : [theirOrder, ourOrder];
+
+            const order = [...primary];
+            for (const childId of [...secondary, ...children]) {
+                if (order.includes(childId)) continue;
+
+                // Insert the block after the same predecessor it has on the other side
+                const index = secondary.indexOf(childId);
+                const predecessor = secondary.slice(0, Math.max(index, 0)).reverse().find(other => order.includes(other));
+                order.splice(predecessor ? order.indexOf(predecessor) + 1 : 0, 0, childId);
+            }
+
+            block.childIds = order;
+        }
+
+        const visited = new Set<string>();
+        const result = DocumentMerger.build(base.ID, merged, visited);
+
+        // Blocks moved inside each other on the two sides are not reachable anymore
+        if (visited.size !== merged.size) {
+            consoleLog(`Merged document ${base.ID} has unreachable blocks.`);
+            return null;
+        }
+
+        return result;
+    }
+
+    /**
+     * Three-way resolution of a single value.
+     *
+     * @returns The resolved value, or null if the value changed differently on both sides.
+     */
+    private static resolve<T>(base: T | undefined, ours: T | undefined, theirs: T | undefined): { value: T | undefined } | null {
+        if (ours === theirs) return { value: ours };
+        if (base === ours) return { value: theirs };
+        if (base === theirs) return { value: ours };
+        return null;
+    }
+
+    /**
+     * Flatten a block tree into a map of blocks by ID.
+     * Nodes without an ID are inline nodes or markers and are part of the content of their block.
+     *
+     * @returns The blocks, or null if a block has nodes without an ID between its child blocks, as their position could not be kept.
+     */
+    private static flatten(root: any): FlatDocument | null {
+        const blocks: FlatDocument = new Map();
+
+        const walk = (node: any, parentId: string | null): boolean => {
+            const children: any[] = node.Children || [];
+            const childBlocks = children.filter(child => child?.ID);
+
+            const first = children.findIndex(child => child?.ID);
+            const last = children.length - 1 - [...children].reverse().findIndex(child => child?.ID);
+            if (first !== -1 && children.slice(first, last + 1).some(child => !child?.ID)) {
+                consoleLog(`Block ${node.ID} has nodes without an ID between its child blocks.`);
+                return false;
+            }
+
+            const content = { ...node };
+            if (node.Children) content.Children = first === -1 ? children : children.slice(0, first);
+            const trailing = first === -1 ? [] : children.slice(last + 1);
+
+            // The update time changes with any edit of the document, so it is not compared
+            const { updated, ...properties } = content.Properties || {};
+            const key = JSON.stringify({ ...content, Properties: properties, trailing });
+
+            blocks.set(node.ID, {
+                content,
+                trailing,
+                key,
+                parentId,
+                childIds: childBlocks.map(child => child.ID)
+            });
+
+            return childBlocks.every(child => walk(child, node.ID));
+        };
+
+        return walk(root, null) ? blocks : null;
+    }
+
+    /**
+     * Rebuild the block tree from the merged blocks.
+     */
+    private static build(id: string, blocks: FlatDocument, visited: Set<string>): any {
+        const block = blocks.get(id);
+        if (!block || visited.has(id)) return null;
+        visited.add(id);
+
+        const node = { ...block.content };
+        const childNodes = block.childIds
+            .map(childId => DocumentMerger.build(childId, blocks, visited))
+            .filter(child => child !== null);
+
+        if (childNodes.length > 0 || block.trailing.length > 0)
+            node.Children = [...(node.Children || []), ...childNodes, ...block.trailing];
+
+        return node;
+    }
+}
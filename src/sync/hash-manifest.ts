@@ -0,0 +1,173 @@
+import { readDir } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { HASH_MANIFEST_FILE, Remote, SYNC_CONFIG_DIR, SyncUtils } from "@/sync";
+
+/**
+ * The content hash of a file as of the last time it was in sync between two remotes.
+ */
+export interface FileHashEntry {
+    hash: string;
+    updated: number;
+}
+
+export class HashManifest {
+    /**
+     * How long to wait for a peer to hash a file, in milliseconds.
+     */
+    static readonly HASH_TIMEOUT = 60 * 1000;
+
+    /**
+     * Load the content hash manifest from disk for a specific remote.
+     * The manifest stores, for each file, the hash and the timestamp it had when it was last synced.
+     *
+     * @param remote The remote information containing URL and key.
+     * @returns A Map of file paths to their last synced hash entries.
+     */
+    static async loadHashManifest(remote: Remote): Promise<Map<string, FileHashEntry>> {
+        try {
+            const dir = await readDir(SYNC_CONFIG_DIR, remote.url, SyncUtils.getHeaders(remote.key));
+
+            if (!dir || !dir.some(file => file.name === HASH_MANIFEST_FILE)) {
+                consoleLog(`No hash manifest found for ${remote.name}`);
+                return new Map();
+            }
+
+            const path = `${SYNC_CONFIG_DIR}${HASH_MANIFEST_FILE}`;
+            const blob = await SyncUtils.readFile(path, remote);
+
+            if (!blob) {
+                consoleWarn(`Failed to fetch hash manifest for ${remote.name}`);
+                return new Map();
+            }
+
+            return new Map(Object.entries(JSON.parse(await blob.text())));
+        } catch (error) {
+            consoleError(`Error loading hash manifest for ${remote.name}:`, error);
+            return new Map();
+        }
+    }
+
+    /**
+     * Save the content hash manifest to disk for a specific remote.
+     *
+     * @param remote The remote information containing URL, key and the hash manifest.
+     */
+    static async saveHashManifest(remote: Remote): Promise<void> {
+        try {
+            const path = `${SYNC_CONFIG_DIR}${HASH_MANIFEST_FILE}`;
+            const jsonContent = JSON.stringify(Object.fromEntries(remote.hashManifest));
+            const file = new File([jsonContent], HASH_MANIFEST_FILE, { lastModified: Date.now() });
+
+            await SyncUtils.writeFile(path, file, remote);
+            consoleLog(`Saved hash manifest for ${remote.name} (${remote.hashManifest.size} files)`);
+        } catch (error) {
+            consoleError(`Error saving hash manifest for ${remote.name}:`, error);
+        }
+    }
+
+    /**
+     * Save the content hash manifests of both remotes.
+     *
+     * @param remotes The pair of remotes involved in the sync.
+     */
+    static async updateHashManifests(remotes: [Remote, Remote]): Promise<void> {
+        await Promise.allSettled([
+            HashManifest.saveHashManifest(remotes[0]),
+            HashManifest.saveHashManifest(remotes[1])
+        ]);
+    }
+
+    /**
+     * Compute the SHA-256 hash of some content.
+     * Returns null when the Web Crypto API is not available, e.g. outside a secure context.
+     *
+     * @param content The content to hash.
+     * @returns The hex encoded hash, or null if it cannot be computed.
+     */
+    static async computeHash(content: Blob): Promise<string | null> {
+        if (!crypto?.subtle) return null;
+
+        const digest = await crypto.subtle.digest("SHA-256", await content.arrayBuffer());
+
+        return Array.from(new Uint8Array(digest))
+            .map(byte => byte.toString(16).padStart(2, "0"))
+            .join("");
+    }
+
+    /**
+     * Get the content hash of the file attached to a remote.
+     * The manifest is used when the file was not modified since the last sync.
+     * Otherwise local files are hashed here, and peers are asked to hash their own file so that it is not downloaded.
+     *
+     * @param remote The remote with the file attached.
+     * @param hashPeerFile Asks a peer for the hash of one of its files, resolving to null if the peer cannot hash it.
+     * @returns The hex encoded hash, or null if it cannot be computed.
+     */
+    static async getFileHash(
+        remote: Remote,
+        hashPeerFile?: (path: string, remote: Remote) => Promise<string | null>
+    ): Promise<string | null> {
+        const path = remote.filePath;
+        if (!path || !remote.file?.item || remote.file.isDir) return null;
+
+        const entry = remote.hashManifest.get(path);
+        if (entry && entry.updated === remote.file.timestamp)
+            return entry.hash;
+
+        try {
+            if (!remote.isLocal())
+                return hashPeerFile ? await hashPeerFile(path, remote) : null;
+
+            const blob = await SyncUtils.readFile(path, remote, HashManifest.HASH_TIMEOUT);
+            return blob ? await HashManifest.computeHash(blob) : null;
+        } catch (error) {
+            consoleWarn(`Failed to hash ${path} on ${remote.name}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Get the hash a file had the last time it was synced between two remotes.
+     *
+     * @param filePath The path of the file.
+     * @param remotes The pair of remotes.
+     * @returns The last synced hash, or undefined if the remotes do not agree on it.
+     */
+    static getSyncedHash(filePath: string, remotes: [Remote, Remote]): string | undefined {
+        const [entryOne, entryTwo] = remotes.map(remote => remote.hashManifest.get(filePath));
+
+        if (!entryOne || !entryTwo || entryOne.hash !== entryTwo.hash)
+            return undefined;
+
+        return entryOne.hash;
+    }
+
+    /**
+     * Record that a file has the same content on a set of remotes.
+     *
+     * @param filePath The path of the file.
+     * @param hash The content hash of the file.
+     * @param entries The remotes holding the file, with the timestamp the file has on each of them.
+     */
+    static recordSyncedFile(filePath: string, hash: string, entries: [Remote, number][]) {
+        for (const [remote, updated] of entries)
+            remote.hashManifest.set(filePath, { hash, updated });
+    }
+
+    /**
+     * Forget a deleted file, or all the files inside a deleted directory.
+     *
+     * @param filePath The path of the deleted file or directory.
+     * @param remotes The remotes to update.
+     */
+    static forgetFile(filePath: string, remotes: Remote[]) {
+        const dirPath = `${filePath.replace(/\.sy$/, "")}/`;
+
+        for (const remote of remotes) {
+            for (const path of Array.from(remote.hashManifest.keys())) {
+                if (path === filePath || path.startsWith(dirPath))
+                    remote.hashManifest.delete(path);
+            }
+        }
+    }
+}
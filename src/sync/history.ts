@@ -1,4 +1,4 @@
-import { getFileBlob, readDir } from "@/api";
+import { readDir } from "@/api";
 import { consoleError, consoleLog, consoleWarn } from "@/logging";
 import { Remote, SYNC_CONFIG_DIR, SYNC_HISTORY_FILE, SyncUtils } from "@/sync";
 
@@ -27,7 +27,7 @@ export class SyncHistory {
 
             // Fetch the file content
             const path = `${SYNC_CONFIG_DIR}${SYNC_HISTORY_FILE}`;
-            const blob = await getFileBlob(path, remote.url, SyncUtils.getHeaders(remote.key));
+            const blob = await SyncUtils.readFile(path, remote);
 
             if (!blob) {
                 consoleWarn(`Failed to fetch sync history for ${remote.name}`);
@@ -64,7 +64,7 @@ export class SyncHistory {
             const jsonContent = JSON.stringify(historyObj, null, 2);
             const file = new File([jsonContent], SYNC_HISTORY_FILE, { lastModified: Date.now() });
 
-            await SyncUtils.putFile(path, file, remote.url, remote.key);
+            await SyncUtils.writeFile(path, file, remote);
             consoleLog(`Saved sync history for ${remote.name}`);
         } catch (error) {
             consoleError(`Error saving sync history for ${remote.name}:`, error);
@@ -0,0 +1,245 @@
+import { getFileBlob, readDir } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { OUTBOX_FILE, Remote, RpcRefusedError, SYNC_CONFIG_DIR, SyncUtils } from "@/sync";
+
+/**
+ * The kind of change waiting to be sent to a peer.
+ */
+export enum OutboxEntryType {
+    // A SiYuan API request forwarded to the peer, e.g. a rename or a deletion
+    ApiRequest = "api-request",
+    // A file copied to the peer if it is newer
+    PushFile = "push-file",
+    // A directory whose missing files are copied to the peer
+    PushDirectory = "push-directory"
+}
+
+/**
+ * A change made with instant sync, waiting to be sent to a peer.
+ */
+export interface OutboxEntry {
+    id: string;
+    peerUrl: string;
+    type: OutboxEntryType;
+    // For API requests, the endpoint and its JSON body
+    url?: string;
+    body?: string;
+    // For pushes, the path relative to the workspace root
+    path?: string;
+    createdAt: number;
+    attempts: number;
+}
+
+/**
+ * Sends an entry to a peer, throwing if it has to be retried later, or RpcRefusedError if the peer refused it.
+ */
+export type OutboxSender = (entry: OutboxEntry, peer: Remote) => Promise<void>;
+
+/**
+ * Durable queue of the instant sync changes, stored in the sync config directory of the local workspace.
+ * The entries of each peer are sent in order, a failed entry blocks the following ones until it is retried.
+ * An entry refused by the peer, or failing too many times, is dropped so that it does not block the following ones,
+ * the next full sync brings the change to the peer.
+ */
+export class Outbox {
+    /**
+     * The delay before the first retry, doubled after each failed attempt, in milliseconds.
+     */
+    static readonly RETRY_DELAY = 30 * 1000;
+    static readonly MAX_RETRY_DELAY = 10 * 60 * 1000;
+
+    /**
+     * The number of failed attempts after which an entry is dropped.
+     */
+    static readonly MAX_ATTEMPTS = 20;
+
+    private entries: OutboxEntry[] = [];
+    private sender: OutboxSender;
+    private getPeer: (url: string) => Remote | undefined;
+    private onChange: () => void;
+
+    private loaded: Promise<void> | null = null;
+    private saveQueue: Promise<void> = Promise.resolve();
+    private draining: Map<string, Promise<void>> = new Map();
+    private retryTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+    /**
+     * @param sender The function sending an entry to a peer.
+     * @param getPeer The function returning the enabled peer with the given URL.
+     * @param onChange Called when the number of pending entries changes.
+     */
+    constructor(sender: OutboxSender, getPeer: (url: string) => Remote | undefined, onChange: () => void) {
+        this.sender = sender;
+        this.getPeer = getPeer;
+        this.onChange = onChange;
+    }
+
+    /**
+     * Load the entries left from a previous session, then start sending them.
+     */
+    load(): Promise<void> {
+        this.loaded ??= (async () => {
+            const remote = Remote.default();
+
+            try {
+                const dir = await readDir(SYNC_CONFIG_DIR, remote.url, SyncUtils.getHeaders(remote.key));
+                if (!dir || !dir.some(file => file.name === OUTBOX_FILE)) return;
+
+                const blob = await getFileBlob(`${SYNC_CONFIG_DIR}${OUTBOX_FILE}`, remote.url, SyncUtils.getHeaders(remote.key));
+                if (!blob) {
+                    consoleWarn("Failed to fetch the instant sync outbox");
+                    return;
+                }
+
+                // Entries added before the outbox was loaded come after the ones of the previous session
+                this.entries = [...JSON.parse(await blob.text()), ...this.entries];
+                consoleLog(`Loaded ${this.entries.length} pending instant sync changes.`);
+            } catch (error) {
+                consoleError("Error loading the instant sync outbox:", error);
+            }
+        })().then(() => {
+            this.onChange();
+            this.drainAll();
+        });
+
+        return this.loaded;
+    }
+
+    /**
+     * Get the number of changes waiting to be sent.
+     *
+     * @param peerUrl The URL of a peer, to count only its changes.
+     */
+    getPendingCount(peerUrl?: string): number {
+        return this.entries.filter(entry => peerUrl === undefined || entry.peerUrl === peerUrl).length;
+    }
+
+    /**
+     * Store a change, then try to send it with the other pending changes of the same peer.
+     *
+     * @param entry The change to send.
+     */
+    async enqueue(entry: Pick<OutboxEntry, "peerUrl" | "type" | "url" | "body" | "path">) {
+        const pending = this.entries.filter(it => it.peerUrl === entry.peerUrl);
+        const last = pending[pending.length - 1];
+
+        // A push reads the file when it is sent, so a second push right after the same one is useless
+        const duplicate = last && last.type === entry.type && entry.type !== OutboxEntryType.ApiRequest && last.path === entry.path;
+
+        if (!duplicate) {
+            this.entries.push({
+                ...entry,
+                id: SyncUtils.generateInstanceId(),
+                createdAt: Date.now(),
+                attempts: 0
+            });
+
+            await this.save();
+        }
+
+        await this.drain(entry.peerUrl);
+    }
+
+    /**
+     * Send the pending changes of every peer.
+     */
+    async drainAll() {
+        const peerUrls = new Set(this.entries.map(entry => entry.peerUrl));
+        await Promise.all(Array.from(peerUrls).map(peerUrl => this.drain(peerUrl)));
+    }
+
+    /**
+     * Send the pending changes of a peer in order, stopping at the first failure.
+     *
+     * @param peerUrl The URL of the peer.
+     */
+    drain(peerUrl: string): Promise<void> {
+        const current = this.draining.get(peerUrl);
+        if (current) return current;
+
+        const retryTimeout = this.retryTimeouts.get(peerUrl);
+        if (retryTimeout) {
+            clearTimeout(retryTimeout);
+            this.retryTimeouts.delete(peerUrl);
+        }
+
+        const task = this.drainPeer(peerUrl).finally(() => this.draining.delete(peerUrl));
+        this.draining.set(peerUrl, task);
+        return task;
+    }
+
+    /**
+     * Drop the changes of a peer made before a full sync, which already brought them to the peer.
+     *
+     * @param peerUrl The URL of the peer.
+     * @param before The start time of the full sync, in milliseconds.
+     */
+    async clearPeer(peerUrl: string, before: number) {
+        const count = this.entries.length;
+        this.entries = this.entries.filter(entry => entry.peerUrl !== peerUrl || entry.createdAt >= before);
+        if (this.entries.length === count) return;
+
+        consoleLog(`Dropped ${count - this.entries.length} pending instant sync changes for ${peerUrl}, sent by the full sync.`);
+        await this.save();
+    }
+
+    private async drainPeer(peerUrl: string) {
+        await this.load();
+
+        while (true) {
+            const entry = this.entries.find(it => it.peerUrl === peerUrl);
+            if (!entry) return;
+
+            const peer = this.getPeer(peerUrl);
+            if (!peer) {
+                consoleLog(`Peer ${peerUrl} is not enabled, keeping its ${this.getPendingCount(peerUrl)} pending changes.`);
+                return;
+            }
+
+            try {
+                await this.sender(entry, peer);
+            } catch (error) {
+                entry.attempts++;
+
+                if (error instanceof RpcRefusedError || entry.attempts >= Outbox.MAX_ATTEMPTS) {
+                    const reason = error instanceof RpcRefusedError ? "refused by the peer" : `failed ${entry.attempts} times`;
+                    consoleError(`Dropped a change for ${peer.name}, ${reason}:`, entry, error);
+
+                    this.entries = this.entries.filter(it => it.id !== entry.id);
+                    await this.save();
+                    continue;
+                }
+
+                await this.save();
+
+                const delay = Math.min(Outbox.RETRY_DELAY * 2 ** (entry.attempts - 1), Outbox.MAX_RETRY_DELAY);
+                consoleWarn(`Failed to send a change to ${peer.name} (attempt ${entry.attempts}), retrying in ${delay / 1000} seconds:`, error);
+
+                this.retryTimeouts.set(peerUrl, setTimeout(() => {
+                    this.retryTimeouts.delete(peerUrl);
+                    this.drain(peerUrl);
+                }, delay));
+                return;
+            }
+
+            this.entries = this.entries.filter(it => it.id !== entry.id);
+            await this.save();
+        }
+    }
+
+    /**
+     * Write the pending entries to disk, one write at a time.
+     */
+    private save(): Promise<void> {
+        this.onChange();
+
+        const task = this.saveQueue.then(async () => {
+            const file = new File([JSON.stringify(this.entries)], OUTBOX_FILE, { lastModified: Date.now() });
+            if (!await SyncUtils.putFile(`${SYNC_CONFIG_DIR}${OUTBOX_FILE}`, file))
+                consoleError("Error saving the instant sync outbox");
+        });
+
+        this.saveQueue = task;
+        return task;
+    }
+}
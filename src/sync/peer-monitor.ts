@@ -0,0 +1,134 @@
+import { consoleLog } from "@/logging";
+import { Remote, SyncUtils } from "@/sync";
+
+/**
+ * The state of a peer, as last seen by the monitor.
+ */
+export enum PeerState {
+    Unknown,
+    Online,
+    Offline,
+    AuthFailed
+}
+
+/**
+ * Called when the state of a peer changes.
+ */
+export type PeerStateCallback = (peer: Remote, state: PeerState, previousState: PeerState) => void;
+
+/**
+ * Polls the enabled peers to know which of them are online.
+ */
+export class PeerMonitor {
+    /**
+     * The time between two checks of the peers, in milliseconds.
+     */
+    static readonly POLL_INTERVAL = 60 * 1000;
+
+    /**
+     * The time to wait for a peer to answer, in milliseconds.
+     */
+    static readonly TIMEOUT = 5000;
+
+    private getPeers: () => Remote[];
+    private callback: PeerStateCallback;
+    private states: Map<string, PeerState> = new Map();
+    private intervalId: ReturnType<typeof setInterval> | null = null;
+
+    /**
+     * @param getPeers The function returning the peers to monitor.
+     * @param callback Called when the state of a peer changes.
+     */
+    constructor(getPeers: () => Remote[], callback: PeerStateCallback) {
+        this.getPeers = getPeers;
+        this.callback = callback;
+    }
+
+    /**
+     * Start polling the peers, replacing the current polling.
+     * The states of the peers which are still configured are kept.
+     */
+    start() {
+        this.stop();
+
+        const urls = new Set(this.getPeers().map(peer => peer.url));
+        for (const url of Array.from(this.states.keys())) {
+            if (!urls.has(url)) this.states.delete(url);
+        }
+
+        if (urls.size === 0) return;
+
+        this.intervalId = setInterval(() => this.checkAll(), PeerMonitor.POLL_INTERVAL);
+        this.checkAll();
+    }
+
+    /**
+     * Stop polling the peers.
+     */
+    stop() {
+        if (this.intervalId !== null) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+    }
+
+    /**
+     * Get the last known state of a peer.
+     *
+     * @param peer The peer to look up.
+     */
+    getState(peer: Remote): PeerState {
+        return this.states.get(peer.url) ?? PeerState.Unknown;
+    }
+
+    /**
+     * Check all the peers now.
+     */
+    async checkAll() {
+        await Promise.all(this.getPeers().map(async peer => {
+            const state = await PeerMonitor.checkPeer(peer);
+            const previousState = this.getState(peer);
+            if (state === previousState) return;
+
+            consoleLog(`Peer ${peer.name} is now ${PeerState[state]} (was ${PeerState[previousState]}).`);
+
+            this.states.set(peer.url, state);
+            this.callback(peer, state, previousState);
+        }));
+    }
+
+    /**
+     * Check whether a peer answers, and whether it accepts the API key.
+     *
+     * @param peer The peer to check.
+     * @returns The state of the peer.
+     */
+    static async checkPeer(peer: Remote): Promise<PeerState> {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), PeerMonitor.TIMEOUT);
+
+        try {
+            const response = await fetch(`${peer.url}/api/system/version`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...SyncUtils.getHeaders(peer.key)
+                },
+                body: "{}",
+                signal: controller.signal
+            });
+
+            if (response.status === 401 || response.status === 403)
+                return PeerState.AuthFailed;
+
+            if (!response.ok) return PeerState.Offline;
+
+            const result = await response.json();
+            return result?.code === 0 ? PeerState.Online : PeerState.AuthFailed;
+        } catch {
+            return PeerState.Offline;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
@@ -1,6 +1,18 @@
+import { FileHashEntry } from "./hash-manifest";
 import { SyncHistory } from "./history";
+import { FileIndex } from "./tombstones";
 import { StorageItem } from "./storage-item";
 
+/**
+ * Configuration of a single peer, as stored in the plugin settings.
+ */
+export interface PeerConfig {
+    url: string;
+    key: string;
+    name: string;
+    enabled: boolean;
+}
+
 /**
  * Represents a remote server connection for synchronization.
  * This class encapsulates all information needed to connect to and sync with a remote SiYuan instance.
@@ -14,6 +26,24 @@ export class Remote {
     public syncHistory: Map<string, number>;
     public file?: StorageItem;
 
+    /**
+     * The last synced content hashes of the files, loaded at the start of a sync.
+     * The map is shared between the copies of a remote, so hashes recorded while syncing single files are kept.
+     */
+    public hashManifest: Map<string, FileHashEntry> = new Map();
+
+    /**
+     * The deletion tombstones and the file index, loaded at the start of a sync and shared between copies like the hashes.
+     */
+    public tombstones: Map<string, number> = new Map();
+    public fileIndex: FileIndex | null = null;
+
+    /**
+     * How far the clock of the remote is ahead of the local clock in seconds, measured at the start of a sync.
+     * The sync history and the tombstones of a remote use its own clock, synced files keep the timestamp of their source.
+     */
+    public clockOffset: number = 0;
+
     public get lastSyncTime(): number {
         return SyncHistory.getLastSyncWithRemote(this, this.instanceId || "");
     }
@@ -45,7 +75,7 @@ export class Remote {
      * @returns A new Remote instance with the same values.
      */
     clone(): Remote {
-        return new Remote(
+        const remote = new Remote(
             this.url,
             this.key,
             this.name,
@@ -54,6 +84,11 @@ export class Remote {
             new Map(this.syncHistory),
             this.file
         );
+        remote.hashManifest = this.hashManifest;
+        remote.tombstones = this.tombstones;
+        remote.fileIndex = this.fileIndex;
+        remote.clockOffset = this.clockOffset;
+        return remote;
     }
 
     static default(): Remote {
@@ -64,6 +99,15 @@ export class Remote {
         return new Remote("", "", "remote");
     }
 
+    /**
+     * Create a Remote instance from a peer configuration.
+     * @param config The peer configuration stored in the settings.
+     * @returns A new Remote instance pointing to the configured peer.
+     */
+    static fromPeerConfig(config: PeerConfig): Remote {
+        return new Remote(config.url || "", config.key || "", config.name || "remote");
+    }
+
     /**
      * Check if this is a local remote (has no URL or key is "SKIP").
      * @returns True if this is a local remote, false otherwise.
@@ -72,6 +116,24 @@ export class Remote {
         return this.url === "" || this.key === "SKIP";
     }
 
+    /**
+     * Convert a timestamp of this remote to the local clock.
+     * @param timestamp The timestamp in seconds, as seen by the remote.
+     * @returns The same time on the local clock.
+     */
+    toLocalTime(timestamp: number): number {
+        return timestamp - this.clockOffset;
+    }
+
+    /**
+     * Convert a timestamp of the local clock to the clock of this remote.
+     * @param timestamp The timestamp in seconds, on the local clock.
+     * @returns The same time as seen by the remote.
+     */
+    toRemoteTime(timestamp: number): number {
+        return timestamp + this.clockOffset;
+    }
+
     /**
      * Check if the appId is set and valid.
      * @returns True if appId is set and not "unknown-app-id", false otherwise.
@@ -99,7 +161,7 @@ export class Remote {
      * @returns A new Remote instance with the file attached.
      */
     withFile(file: StorageItem): Remote {
-        return new Remote(
+        const remote = new Remote(
             this.url,
             this.key,
             this.name,
@@ -108,5 +170,10 @@ export class Remote {
             new Map(this.syncHistory),
             file
         );
+        remote.hashManifest = this.hashManifest;
+        remote.tombstones = this.tombstones;
+        remote.fileIndex = this.fileIndex;
+        remote.clockOffset = this.clockOffset;
+        return remote;
     }
 }
@@ -0,0 +1,396 @@
+import { readDir, removeFile } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import {
+    FILE_INDEX_FILE,
+    HASH_MANIFEST_FILE,
+    JOURNAL_FILE,
+    Remote,
+    StorageItem,
+    SYNC_CONFIG_DIR,
+    SYNC_HISTORY_FILE,
+    SYNC_JOURNAL_DIR,
+    SyncUtils,
+    TOMBSTONES_FILE,
+    Tombstones
+} from "@/sync";
+
+/**
+ * A path written or deleted by a sync, with what was there before.
+ */
+export interface JournalEntry {
+    path: string;
+    // False if the path did not exist before the sync, undoing the sync deletes it
+    existed: boolean;
+    isDir?: boolean;
+    // The modification time of the previous version in seconds
+    timestamp?: number;
+}
+
+/**
+ * A copy of a file within a remote.
+ */
+export interface FileCopy {
+    from: string;
+    to: string;
+    // The modification time of the copy in seconds, the current time if missing
+    timestamp?: number;
+    // Whether to update the indexes, only for files of the workspace
+    index: boolean;
+}
+
+/**
+ * Copies files within a peer, on the peer itself.
+ * Resolves to whether each file was copied, or to null if the peer cannot copy files.
+ */
+export type PeerFileCopier = (copies: FileCopy[], peer: Remote) => Promise<boolean[] | null>;
+
+/**
+ * The journal of the last sync, stored on both remotes of the sync.
+ */
+export interface JournalManifest {
+    // Shared by the journals of both remotes, to check that they belong to the same sync
+    id: string;
+    startedAt: number;
+    // The peer of the sync, as seen from the device which ran it
+    peerUrl: string;
+    peerName: string;
+    entries: JournalEntry[];
+}
+
+/**
+ * Keeps the previous version of every file written or deleted by a sync, so that the sync can be undone.
+ * The journal of a remote replaces the previous one as soon as the sync changes something on it.
+ * The sync state files are journaled as well, so that after an undo the remotes are back to the state before the sync.
+ */
+export class SyncJournal {
+    /**
+     * The sync state files, restored last.
+     */
+    private static readonly STATE_FILES = [SYNC_HISTORY_FILE, HASH_MANIFEST_FILE, TOMBSTONES_FILE, FILE_INDEX_FILE]
+        .map(fileName => `${SYNC_CONFIG_DIR}${fileName}`);
+
+    /**
+     * Where the sync state files are copied at the beginning of a sync, until the sync changes something.
+     */
+    private static readonly STATE_COPIES_DIR = `${SYNC_CONFIG_DIR}journal-state/`;
+
+    /**
+     * The number of files a peer is asked to copy at once, and how long to wait for it, in milliseconds.
+     */
+    static readonly COPY_BATCH_SIZE = 50;
+    static readonly COPY_TIMEOUT = 2 * 60 * 1000;
+
+    private id: string;
+    private startedAt: number;
+    private remotes: [Remote, Remote];
+    private copyOnPeer?: PeerFileCopier;
+
+    /**
+     * Whether each sync state file existed before the sync, for each remote.
+     */
+    private stateFiles: Map<string, boolean>[] = [new Map(), new Map()];
+
+    /**
+     * The journaled paths of each remote, the promise resolves once the previous version is saved.
+     */
+    private entries: Map<string, Promise<JournalEntry | null>>[] = [new Map(), new Map()];
+
+    /**
+     * Set once the previous journals have been replaced on both remotes.
+     */
+    private started: Promise<void> | null = null;
+
+    /**
+     * @param remotes The remotes of the sync.
+     * @param copyOnPeer Copies the files of the peer on the peer, so that they are not downloaded and uploaded back.
+     */
+    constructor(remotes: [Remote, Remote], copyOnPeer?: PeerFileCopier) {
+        this.id = SyncUtils.generateInstanceId();
+        this.startedAt = Math.floor(Date.now() / 1000);
+        this.remotes = remotes;
+        this.copyOnPeer = copyOnPeer;
+    }
+
+    /**
+     * Get the path where the previous version of a file is stored.
+     *
+     * @param filePath The path of the file, relative to the workspace root.
+     * @returns The path inside the journal.
+     */
+    static getJournalPath(filePath: string): string {
+        return `${SYNC_JOURNAL_DIR}files/${filePath}`;
+    }
+
+    /**
+     * Copy the sync state files, before the sync changes them.
+     */
+    async begin() {
+        await Promise.all(this.remotes.map(async (remote, index) => {
+            const copies = SyncJournal.STATE_FILES.map(path => ({ from: path, to: SyncJournal.getStateCopyPath(path), index: false }));
+            const copied = await SyncJournal.copyFiles(copies, remote, this.copyOnPeer).catch(() => copies.map(() => false));
+
+            SyncJournal.STATE_FILES.forEach((path, i) => this.stateFiles[index].set(path, copied[i]));
+        }));
+    }
+
+    /**
+     * Save the previous version of a path before the sync overwrites or deletes it.
+     * Each path is saved once per sync, so the version from before the sync is kept.
+     *
+     * @param filePath The path about to be changed.
+     * @param remote The remote where the path is changed.
+     */
+    async backup(filePath: string, remote: Remote) {
+        const index = this.getRemoteIndex(remote);
+        if (this.entries[index].has(filePath)) {
+            await this.entries[index].get(filePath);
+            return;
+        }
+
+        const entry = this.start().then(() => this.saveVersion(filePath, this.remotes[index], remote));
+        this.entries[index].set(filePath, entry);
+        await entry;
+    }
+
+    /**
+     * Write the journal on both remotes, if the sync changed anything.
+     */
+    async save() {
+        if (!this.started) return;
+        await this.started;
+
+        await Promise.allSettled(this.remotes.map(async (remote, index) => {
+            const entries = (await Promise.all(this.entries[index].values())).filter(Boolean);
+
+            // The state files are restored after the files they describe
+            for (const [path, existed] of this.stateFiles[index]) {
+                entries.push({ path, existed, timestamp: this.startedAt });
+            }
+
+            const journal: JournalManifest = {
+                id: this.id,
+                startedAt: this.startedAt,
+                peerUrl: this.remotes[1].url,
+                peerName: this.remotes[1].name,
+                entries
+            };
+
+            try {
+                const file = new File([JSON.stringify(journal)], JOURNAL_FILE, { lastModified: Date.now() });
+                if (!await SyncUtils.writeFile(`${SYNC_JOURNAL_DIR}${JOURNAL_FILE}`, file, remote, file.lastModified, false))
+                    throw new Error("Failed to write the journal");
+                consoleLog(`Saved the sync journal for ${remote.name} (${entries.length} entries)`);
+            } catch (error) {
+                consoleError(`Error saving the sync journal for ${remote.name}:`, error);
+            }
+        }));
+    }
+
+    /**
+     * Replace the previous journals with the state files copied at the beginning of the sync.
+     */
+    private start(): Promise<void> {
+        this.started ??= Promise.all(this.remotes.map(async (remote, index) => {
+            await SyncJournal.clear(remote);
+
+            const copies = Array.from(this.stateFiles[index])
+                .filter(([_, existed]) => existed)
+                .map(([path]) => ({ from: SyncJournal.getStateCopyPath(path), to: SyncJournal.getJournalPath(path), index: false }));
+            await SyncJournal.copyFiles(copies, remote, this.copyOnPeer);
+        })).then(() => {});
+
+        return this.started;
+    }
+
+    /**
+     * Copy the current version of a path into the journal.
+     *
+     * @returns The journal entry, or null if the previous version could not be saved.
+     */
+    private async saveVersion(filePath: string, remote: Remote, remoteWithFile: Remote): Promise<JournalEntry | null> {
+        try {
+            const item = remoteWithFile.filePath === filePath && remoteWithFile.file?.item
+                ? remoteWithFile.file
+                : await SyncJournal.getStorageItem(filePath, remote);
+
+            if (!item) return { path: filePath, existed: false };
+
+            const files = item.isDir ? (await SyncUtils.getDirFilesRecursively(filePath, remote, false)).getAllChildFiles() : [item];
+            const copies = files.map(file => ({ from: file.path, to: SyncJournal.getJournalPath(file.path), timestamp: file.timestamp, index: false }));
+
+            const copied = await SyncJournal.copyFiles(copies, remote, this.copyOnPeer);
+            if (copied.includes(false)) throw new Error(`Some files of ${filePath} were not found on ${remote.name}`);
+
+            if (!item.isDir) return { path: filePath, existed: true, timestamp: item.timestamp };
+
+            return { path: filePath, existed: true, isDir: true, timestamp: item.timestamp };
+        } catch (error) {
+            consoleWarn(`Failed to save the previous version of ${filePath} on ${remote.name}, it cannot be undone:`, error);
+            return null;
+        }
+    }
+
+    private getRemoteIndex(remote: Remote): number {
+        return remote.url === this.remotes[0].url ? 0 : 1;
+    }
+
+    /**
+     * Load the journal of the last sync from a remote.
+     *
+     * @param remote The remote information containing URL and key.
+     * @returns The journal, or null if there is nothing to undo.
+     */
+    static async loadJournal(remote: Remote): Promise<JournalManifest | null> {
+        try {
+            const dir = await readDir(SYNC_JOURNAL_DIR, remote.url, SyncUtils.getHeaders(remote.key));
+            if (!dir || !dir.some(file => file.name === JOURNAL_FILE)) return null;
+
+            const blob = await SyncUtils.readFile(`${SYNC_JOURNAL_DIR}${JOURNAL_FILE}`, remote);
+            if (!blob) {
+                consoleWarn(`Failed to fetch the sync journal for ${remote.name}`);
+                return null;
+            }
+
+            return JSON.parse(await blob.text());
+        } catch (error) {
+            consoleError(`Error loading the sync journal for ${remote.name}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Put back on a remote every path recorded in its journal.
+     * Paths created by the sync are deleted, the others get their previous version and modification time back.
+     *
+     * @param remote The remote to restore.
+     * @param journal The journal of the remote.
+     * @param copyOnPeer Copies the files of a peer on the peer, so that they are not downloaded and uploaded back.
+     * @returns The number of restored paths.
+     */
+    static async restore(remote: Remote, journal: JournalManifest, copyOnPeer?: PeerFileCopier): Promise<number> {
+        const isStateFile = (entry: JournalEntry) => SyncJournal.STATE_FILES.includes(entry.path);
+        let restored = 0;
+
+        for (const entry of journal.entries.filter(entry => !isStateFile(entry))) {
+            consoleLog(`Restoring ${entry.path} on ${remote.name}`);
+
+            if (!entry.existed) {
+                await SyncUtils.deleteFile(entry.path, remote);
+            } else if (entry.isDir) {
+                await SyncUtils.deleteFile(entry.path, remote);
+
+                const dir = await SyncUtils.getDirFilesRecursively(SyncJournal.getJournalPath(entry.path), remote, false);
+                const copies = dir.getAllChildFiles().map(child => ({
+                    from: child.path,
+                    to: `${entry.path}${child.path.slice(SyncJournal.getJournalPath(entry.path).length)}`,
+                    timestamp: child.timestamp,
+                    index: true
+                }));
+                await SyncJournal.copyExistingFiles(copies, remote, copyOnPeer);
+            } else {
+                await SyncJournal.copyExistingFiles([
+                    { from: SyncJournal.getJournalPath(entry.path), to: entry.path, timestamp: entry.timestamp, index: true }
+                ], remote, copyOnPeer);
+            }
+
+            restored++;
+        }
+
+        // Deleting files records tombstones, the previous tombstones must be put back after that
+        await Tombstones.whenIdle();
+
+        for (const entry of journal.entries.filter(isStateFile)) {
+            if (entry.existed)
+                await SyncJournal.copyExistingFiles([{ from: SyncJournal.getJournalPath(entry.path), to: entry.path, index: false }], remote, copyOnPeer);
+            else
+                await removeFile(entry.path, remote.url, SyncUtils.getHeaders(remote.key));
+        }
+
+        return restored;
+    }
+
+    /**
+     * Remove the journal from a remote.
+     *
+     * @param remote The remote information containing URL and key.
+     */
+    static async clear(remote: Remote) {
+        try {
+            await removeFile(SYNC_JOURNAL_DIR.replace(/\/$/, ""), remote.url, SyncUtils.getHeaders(remote.key));
+        } catch (error) {
+            consoleWarn(`Failed to remove the sync journal from ${remote.name}:`, error);
+        }
+    }
+
+    /**
+     * Get the storage item of a single path, or null if the path does not exist.
+     */
+    private static async getStorageItem(filePath: string, remote: Remote): Promise<StorageItem | null> {
+        const parentPath = filePath.substring(0, filePath.lastIndexOf("/"));
+        const dir = await readDir(parentPath, remote.url, SyncUtils.getHeaders(remote.key));
+        const item = dir?.find(file => file.name === filePath.split("/").pop());
+
+        return item ? new StorageItem(filePath, parentPath, item) : null;
+    }
+
+    /**
+     * Copy files within a remote, on the remote itself when it is a peer which can copy files.
+     *
+     * @param copies The files to copy.
+     * @param remote The remote holding the files.
+     * @param copyOnPeer Copies the files of a peer on the peer.
+     * @returns Whether each file was copied, false if it does not exist or could not be written.
+     */
+    static async copyFiles(copies: FileCopy[], remote: Remote, copyOnPeer?: PeerFileCopier): Promise<boolean[]> {
+        const copied: boolean[] = [];
+
+        for (let start = 0; start < copies.length; start += SyncJournal.COPY_BATCH_SIZE) {
+            const batch = copies.slice(start, start + SyncJournal.COPY_BATCH_SIZE);
+            const copiedOnPeer = !remote.isLocal() && copyOnPeer ? await copyOnPeer(batch, remote) : null;
+
+            if (copiedOnPeer) {
+                copied.push(...copiedOnPeer);
+                continue;
+            }
+
+            for (const copy of batch)
+                copied.push(await SyncJournal.copyFile(copy, remote));
+        }
+
+        return copied;
+    }
+
+    /**
+     * Copy files within a remote, all of which must exist.
+     *
+     * @throws If a file does not exist or could not be written.
+     */
+    private static async copyExistingFiles(copies: FileCopy[], remote: Remote, copyOnPeer?: PeerFileCopier) {
+        const copied = await SyncJournal.copyFiles(copies, remote, copyOnPeer);
+
+        const missing = copies.find((_, index) => !copied[index]);
+        if (missing) throw new Error(`Failed to copy ${missing.from} on ${remote.name}`);
+    }
+
+    /**
+     * Copy a file within a remote, keeping its modification time.
+     *
+     * @returns False if the file does not exist or could not be written.
+     */
+    private static async copyFile(copy: FileCopy, remote: Remote): Promise<boolean> {
+        const blob = await SyncUtils.readFile(copy.from, remote);
+        if (!blob) return false;
+
+        const modTime = copy.timestamp !== undefined ? copy.timestamp * 1000 : Date.now();
+        const file = new File([blob], copy.to.split("/").pop(), { lastModified: modTime });
+
+        return SyncUtils.writeFile(copy.to, file, remote, modTime, copy.index);
+    }
+
+    /**
+     * Get the path where a sync state file is copied at the beginning of a sync.
+     */
+    private static getStateCopyPath(path: string): string {
+        return `${SyncJournal.STATE_COPIES_DIR}${path.split("/").pop()}`;
+    }
+}
@@ -0,0 +1,133 @@
+import { readDir } from "@/api";
+import { consoleWarn } from "@/logging";
+import { LOCK_FILE, Remote, SYNC_CONFIG_DIR, SyncUtils } from "@/sync";
+
+/**
+ * The content of a lock file, describing the sync holding it.
+ */
+export interface LockInfo {
+    // The instance ID of the device running the sync, empty for the locks of older versions
+    instanceId: string;
+    nickname: string;
+    // Times in milliseconds, on the clock of the device running the sync
+    startedAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Thrown when a remote is locked by another sync whose lease has not expired.
+ */
+export class SyncLockError extends Error {
+    public remote: Remote;
+    public holder: LockInfo;
+
+    constructor(message: string, remote: Remote, holder: LockInfo) {
+        super(message);
+        this.name = "SyncLockError";
+        this.remote = remote;
+        this.holder = holder;
+    }
+}
+
+export class SyncLock {
+    /**
+     * How long a lock is valid without being renewed, in milliseconds.
+     */
+    static readonly LEASE_DURATION = 5 * 60 * 1000;
+
+    /**
+     * How often a running sync renews its locks, in milliseconds.
+     */
+    static readonly RENEW_INTERVAL = 60 * 1000;
+
+    /**
+     * Read the lock of a remote.
+     * The empty lock files of older versions are read as a lease starting at their modification time.
+     *
+     * @param remote The remote information containing URL and key.
+     * @returns The lock, or null if the remote is not locked.
+     */
+    static async read(remote: Remote): Promise<LockInfo | null> {
+        const dir = await readDir(SYNC_CONFIG_DIR, remote.url, SyncUtils.getHeaders(remote.key), 5000);
+        const lockFileInfo = dir?.find(file => file.name === LOCK_FILE);
+        if (!lockFileInfo) return null;
+
+        const updated = lockFileInfo.updated * 1000;
+        const legacyLock: LockInfo = {
+            instanceId: "",
+            nickname: "",
+            startedAt: updated,
+            expiresAt: updated + SyncLock.LEASE_DURATION
+        };
+
+        try {
+            const blob = await SyncUtils.readFile(`${SYNC_CONFIG_DIR}${LOCK_FILE}`, remote);
+            const text = blob ? await blob.text() : "";
+            if (!text) return legacyLock;
+
+            const data = JSON.parse(text);
+            return typeof data?.expiresAt === "number" ? { ...legacyLock, ...data } : legacyLock;
+        } catch (error) {
+            consoleWarn(`Failed to read the sync lock of ${remote.name}, using its modification time:`, error);
+            return legacyLock;
+        }
+    }
+
+    /**
+     * Write a lock on a remote, valid for a full lease from now.
+     *
+     * @param remote The remote to lock.
+     * @param holder The device running the sync.
+     * @param startedAt The start time of the sync in milliseconds.
+     */
+    static async write(remote: Remote, holder: Pick<LockInfo, "instanceId" | "nickname">, startedAt: number): Promise<void> {
+        const now = Date.now();
+        const lock: LockInfo = { ...holder, startedAt, expiresAt: now + SyncLock.LEASE_DURATION };
+
+        const file = new File([JSON.stringify(lock)], LOCK_FILE, { type: "application/json", lastModified: now });
+        if (!await SyncUtils.writeFile(`${SYNC_CONFIG_DIR}${LOCK_FILE}`, file, remote, now))
+            throw new Error(`Failed to write the sync lock of ${remote.name}`);
+    }
+
+    /**
+     * Remove the lock of a remote.
+     *
+     * @param remote The remote to unlock.
+     */
+    static async remove(remote: Remote): Promise<void> {
+        await SyncUtils.deleteFile(`${SYNC_CONFIG_DIR}${LOCK_FILE}`, remote);
+    }
+
+    /**
+     * Check whether the lease of a lock is over.
+     * The expiry is on the clock of the holder, the clock offset of the remote is the best estimate of it.
+     *
+     * @param lock The lock to check.
+     * @param remote The remote holding the lock.
+     */
+    static isExpired(lock: LockInfo, remote: Remote): boolean {
+        return lock.expiresAt < Date.now() + remote.clockOffset * 1000;
+    }
+
+    /**
+     * Check whether a lock is still the one written by a sync, and not one taken by another sync since.
+     *
+     * @param lock The lock read from the remote, or null if there is none.
+     * @param holder The device running the sync.
+     * @param startedAt The start time of the sync in milliseconds.
+     */
+    static isHeldBy(lock: LockInfo | null, holder: Pick<LockInfo, "instanceId">, startedAt: number): boolean {
+        return !!lock && lock.instanceId === holder.instanceId && lock.startedAt === startedAt;
+    }
+
+    /**
+     * Get the name of the device holding a lock, for the messages.
+     *
+     * @param lock The lock to describe.
+     * @param unknown The name to use when the lock does not say who holds it.
+     */
+    static getHolderName(lock: LockInfo, unknown: string): string {
+        if (lock.nickname && lock.instanceId) return `${lock.nickname} (${lock.instanceId})`;
+        return lock.nickname || lock.instanceId || unknown;
+    }
+}
@@ -0,0 +1,144 @@
+import { Dialog } from "siyuan";
+import { Remote } from "@/sync";
+import { SyncFileOperation, SyncFileOperationType } from "@/types/sync-status";
+
+export class SyncPreview {
+    /**
+     * Show the planned sync operations in a dialog and wait for the user to review them.
+     * Every operation can be unticked to leave it out of the sync.
+     *
+     * @param i18n The plugin translations.
+     * @param remotes The pair of remotes being synced.
+     * @param operations The planned sync operations.
+     * @returns The approved operations, or null if the sync was cancelled.
+     */
+    static show(i18n: any, remotes: [Remote, Remote], operations: SyncFileOperation[]): Promise<SyncFileOperation[] | null> {
+        return new Promise(resolve => {
+            let approved: SyncFileOperation[] | null = null;
+
+            const dialog = new Dialog({
+                title: i18n.syncPreviewTitle.replace("{{remoteName}}", remotes[1].name),
+                content: `<div class="b3-dialog__content better-sync-preview">
+    <div class="better-sync-preview__summary"></div>
+    <table class="better-sync-preview__table">
+        <thead>
+            <tr>
+                <th><input type="checkbox" class="b3-switch fn__flex-center" data-type="all" checked></th>
+                <th>${i18n.syncPreviewOperation}</th>
+                <th>${i18n.syncPreviewPath}</th>
+                <th>${i18n.syncPreviewSource}</th>
+                <th>${i18n.syncPreviewDestination}</th>
+            </tr>
+        </thead>
+        <tbody></tbody>
+    </table>
+</div>
+<div class="b3-dialog__action">
+    <button class="b3-button b3-button--cancel">${window.siyuan.languages.cancel}</button><div class="fn__space"></div>
+    <button class="b3-button b3-button--text">${i18n.syncPreviewRun}</button>
+</div>`,
+                width: "min(960px, 92vw)",
+                height: "min(720px, 80vh)",
+                destroyCallback: () => resolve(approved)
+            });
+
+            const summary = dialog.element.querySelector(".better-sync-preview__summary") as HTMLElement;
+            summary.textContent = SyncPreview.getSummary(i18n, operations);
+
+            const tbody = dialog.element.querySelector("tbody") as HTMLElement;
+            const checkboxes = operations.map((operation, index) => {
+                const row = SyncPreview.createRow(operation, index);
+                tbody.appendChild(row);
+                return row.querySelector("input") as HTMLInputElement;
+            });
+
+            const allCheckbox = dialog.element.querySelector("input[data-type='all']") as HTMLInputElement;
+            allCheckbox.addEventListener("change", () => {
+                checkboxes.forEach(checkbox => checkbox.checked = allCheckbox.checked);
+            });
+
+            const buttons = dialog.element.querySelectorAll(".b3-dialog__action .b3-button");
+            buttons[0].addEventListener("click", () => dialog.destroy());
+            buttons[1].addEventListener("click", () => {
+                approved = operations.filter((_, index) => checkboxes[index].checked);
+                dialog.destroy();
+            });
+        });
+    }
+
+    /**
+     * Count the planned operations by type.
+     *
+     * @param i18n The plugin translations.
+     * @param operations The planned sync operations.
+     * @returns A short summary, e.g. "Sync: 3, Delete: 1".
+     */
+    private static getSummary(i18n: any, operations: SyncFileOperation[]): string {
+        if (operations.length === 0) return i18n.syncPreviewEmpty;
+
+        const counts = new Map<SyncFileOperationType, number>();
+        for (const operation of operations)
+            counts.set(operation.operationType, (counts.get(operation.operationType) || 0) + 1);
+
+        return Array.from(counts.entries())
+            .map(([type, count]) => `${SyncFileOperationType[type]}: ${count}`)
+            .join(", ");
+    }
+
+    /**
+     * Create the table row of a planned operation.
+     * Texts are set through textContent, as paths and remote names are user controlled.
+     *
+     * @param operation The planned sync operation.
+     * @param index The index of the operation in the plan.
+     * @returns The table row element.
+     */
+    private static createRow(operation: SyncFileOperation, index: number): HTMLTableRowElement {
+        const row = document.createElement("tr");
+        row.dataset.index = index.toString();
+
+        const isDelete = operation.operationType === SyncFileOperationType.Delete ||
+            operation.operationType === SyncFileOperationType.DeleteAndSync;
+        if (isDelete) row.classList.add("better-sync-preview__row--delete");
+
+        // For moves the destination still holds the old path
+        const path = operation.operationType === SyncFileOperationType.MoveDocs
+            ? `${operation.destination?.filePath} → ${operation.source?.filePath}`
+            : operation.source?.filePath || operation.destination?.filePath || "";
+
+        const cells = [
+            SyncFileOperationType[operation.operationType],
+            path,
+            SyncPreview.describeRemote(operation.source),
+            SyncPreview.describeRemote(operation.destination)
+        ];
+
+        const checkboxCell = document.createElement("td");
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.className = "b3-switch fn__flex-center";
+        checkbox.checked = true;
+        checkboxCell.appendChild(checkbox);
+        row.appendChild(checkboxCell);
+
+        for (const text of cells) {
+            const cell = document.createElement("td");
+            cell.textContent = text;
+            row.appendChild(cell);
+        }
+
+        return row;
+    }
+
+    /**
+     * Describe one side of an operation with the remote name and the file timestamp.
+     */
+    private static describeRemote(remote?: Remote): string {
+        if (!remote) return "-";
+
+        const timestamp = remote.file?.timestamp;
+        const time = timestamp ? new Date(timestamp * 1000).toLocaleString() : "-";
+
+        return `${remote.name} (${time})`;
+    }
+}
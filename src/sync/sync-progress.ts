@@ -0,0 +1,239 @@
+import { SyncFileOperation, SyncFileOperationType, SyncProgressInfo } from "@/types/sync-status";
+
+/**
+ * Counts the work of the running sync: the scanned directories, the planned and completed operations and the transferred bytes.
+ * The listeners are notified at most once per interval, as large syncs complete many operations per second.
+ */
+export class SyncProgress {
+    /**
+     * The minimum time between two notifications, in milliseconds.
+     */
+    static readonly NOTIFY_INTERVAL = 500;
+
+    private info: SyncProgressInfo | null = null;
+    private executionStartedAt: number = 0;
+    private onChange: () => void;
+    private notifyTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * @param onChange Called when the progress changes.
+     */
+    constructor(onChange: () => void) {
+        this.onChange = onChange;
+    }
+
+    /**
+     * Start counting a new sync.
+     *
+     * @param remoteName The name of the peer being synced.
+     */
+    start(remoteName: string) {
+        this.info = {
+            remoteName,
+            startedAt: Date.now(),
+            scannedDirectories: 0,
+            totalDirectories: 0,
+            planned: {},
+            completed: {},
+            failed: 0,
+            bytesTransferred: 0,
+            eta: null
+        };
+        this.executionStartedAt = 0;
+        this.notify(true);
+    }
+
+    /**
+     * Stop counting, the sync is over.
+     */
+    finish() {
+        this.info = null;
+        this.notify(true);
+    }
+
+    /**
+     * Get the current progress, with an up to date estimation of the remaining time.
+     *
+     * @returns The progress, or null if no sync is running.
+     */
+    get(): SyncProgressInfo | null {
+        if (!this.info) return null;
+
+        const { planned, completed } = SyncProgress.getTotals(this.info);
+        const done = completed + this.info.failed;
+        const scanning = this.info.scannedDirectories < this.info.totalDirectories;
+
+        // Operations are planned while scanning, so the estimate is only reliable once every directory is scanned
+        this.info.eta = done > 0 && !scanning && this.executionStartedAt > 0
+            ? Math.round((Date.now() - this.executionStartedAt) / done * Math.max(planned - done, 0))
+            : null;
+
+        return { ...this.info, planned: { ...this.info.planned }, completed: { ...this.info.completed } };
+    }
+
+    /**
+     * Set the number of directories to scan.
+     */
+    setTotalDirectories(count: number) {
+        if (!this.info) return;
+        this.info.totalDirectories = count;
+        this.notify();
+    }
+
+    /**
+     * Count a directory scanned on both remotes.
+     */
+    addScannedDirectory() {
+        if (!this.info) return;
+        this.info.scannedDirectories++;
+        this.notify();
+    }
+
+    /**
+     * Count operations planned for execution.
+     *
+     * @param operations The planned operations.
+     * @param replace Whether they replace the operations planned so far, e.g. after a preview.
+     */
+    addPlanned(operations: SyncFileOperation[], replace: boolean = false) {
+        if (!this.info) return;
+        if (replace) this.info.planned = {};
+
+        for (const operation of operations)
+            this.info.planned[operation.operationType] = (this.info.planned[operation.operationType] || 0) + 1;
+
+        this.notify();
+    }
+
+    /**
+     * Note that the execution of an operation started, to measure the speed of the sync.
+     */
+    startExecution() {
+        if (this.info && this.executionStartedAt === 0) this.executionStartedAt = Date.now();
+    }
+
+    /**
+     * Count an executed operation.
+     *
+     * @param operation The executed operation.
+     * @param success Whether the operation succeeded.
+     */
+    addCompleted(operation: SyncFileOperation, success: boolean = true) {
+        if (!this.info) return;
+
+        if (success)
+            this.info.completed[operation.operationType] = (this.info.completed[operation.operationType] || 0) + 1;
+        else
+            this.info.failed++;
+
+        this.notify();
+    }
+
+    /**
+     * Count bytes written to a remote.
+     */
+    addBytes(bytes: number) {
+        if (!this.info) return;
+        this.info.bytesTransferred += bytes;
+        this.notify();
+    }
+
+    private notify(immediate: boolean = false) {
+        if (immediate) {
+            if (this.notifyTimeout !== null) clearTimeout(this.notifyTimeout);
+            this.notifyTimeout = null;
+            this.onChange();
+            return;
+        }
+
+        if (this.notifyTimeout !== null) return;
+
+        this.notifyTimeout = setTimeout(() => {
+            this.notifyTimeout = null;
+            this.onChange();
+        }, SyncProgress.NOTIFY_INTERVAL);
+    }
+
+    /**
+     * Sum the planned and completed operations of all types.
+     */
+    static getTotals(info: SyncProgressInfo): { planned: number, completed: number } {
+        const sum = (counts: Partial<Record<SyncFileOperationType, number>>) =>
+            Object.values(counts).reduce((total, count) => total + count, 0);
+
+        return { planned: sum(info.planned), completed: sum(info.completed) };
+    }
+
+    /**
+     * Get the completed part of the sync, between 0 and 1.
+     * Failed operations count as done, they will not run again in this sync.
+     */
+    static getRatio(info: SyncProgressInfo): number {
+        const { planned, completed } = SyncProgress.getTotals(info);
+        return planned > 0 ? Math.min((completed + info.failed) / planned, 1) : 0;
+    }
+
+    /**
+     * Describe the progress in a few lines of text, for tooltips.
+     *
+     * @param i18n The plugin translations.
+     * @param info The progress to describe.
+     */
+    static describe(i18n: any, info: SyncProgressInfo): string {
+        const { planned, completed } = SyncProgress.getTotals(info);
+        const ratio = SyncProgress.getRatio(info);
+        const width = 20;
+        const filled = Math.round(ratio * width);
+
+        const lines = [
+            i18n.syncProgressBar
+                .replace("{{bar}}", "█".repeat(filled) + "░".repeat(width - filled))
+                .replace("{{percent}}", String(Math.floor(ratio * 100))),
+            i18n.syncProgressOperations
+                .replace("{{completed}}", String(completed + info.failed))
+                .replace("{{planned}}", String(planned))
+                .replace("{{bytes}}", SyncProgress.formatBytes(info.bytesTransferred))
+        ];
+
+        if (info.scannedDirectories < info.totalDirectories) {
+            lines.push(i18n.syncProgressScanning
+                .replace("{{scanned}}", String(info.scannedDirectories))
+                .replace("{{total}}", String(info.totalDirectories)));
+        } else if (info.eta !== null) {
+            lines.push(i18n.syncProgressEta.replace("{{eta}}", SyncProgress.formatDuration(info.eta)));
+        }
+
+        return lines.join("\n");
+    }
+
+    /**
+     * Format a number of bytes with a binary unit, e.g. "1.5 MB".
+     */
+    static formatBytes(bytes: number): string {
+        const units = ["B", "KB", "MB", "GB"];
+        let value = bytes;
+        let unit = 0;
+
+        while (value >= 1024 && unit < units.length - 1) {
+            value /= 1024;
+            unit++;
+        }
+
+        return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+    }
+
+    /**
+     * Format a duration in milliseconds, e.g. "2:05" or "1:02:05".
+     */
+    static formatDuration(ms: number): string {
+        const seconds = Math.ceil(ms / 1000);
+        const pad = (value: number) => String(value).padStart(2, "0");
+
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor(seconds % 3600 / 60);
+
+        return hours > 0
+            ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+            : `${minutes}:${pad(seconds % 60)}`;
+    }
+}
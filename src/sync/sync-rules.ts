@@ -0,0 +1,155 @@
+import { consoleWarn } from "@/logging";
+
+interface SyncRulePattern {
+    regExp: RegExp;
+    include: boolean;
+}
+
+/**
+ * User defined rules to decide which paths are kept out of the sync.
+ *
+ * Rules are made of excluded notebook IDs and glob patterns, evaluated like a .gitignore file:
+ * - `*` matches anything except `/`, `**` matches any number of directories and `?` matches a single character
+ * - patterns without a `/` match the item name at any depth, e.g. `*.mp4`
+ * - patterns with a `/` match the full path from the workspace root, e.g. `data/assets/videos/**`
+ * - patterns starting with `!` re-include paths excluded by a previous pattern
+ * - the last matching pattern wins
+ */
+export class SyncRules {
+    public excludedNotebooks: string[];
+    public patterns: string[];
+    private compiledPatterns: SyncRulePattern[];
+
+    constructor(excludedNotebooks: string[] = [], patterns: string[] = []) {
+        this.excludedNotebooks = excludedNotebooks;
+        this.patterns = patterns;
+        this.compiledPatterns = patterns
+            .map(pattern => SyncRules.compilePattern(pattern))
+            .filter((pattern): pattern is SyncRulePattern => pattern !== null);
+    }
+
+    /**
+     * Create the rules from the values stored in the settings.
+     *
+     * @param excludedNotebooks The IDs of the notebooks excluded from sync.
+     * @param patternsText The glob patterns, one per line. Empty lines and lines starting with `#` are ignored.
+     * @returns A new SyncRules instance.
+     */
+    static fromSettings(excludedNotebooks: string[] = [], patternsText: string = ""): SyncRules {
+        const patterns = (patternsText || "")
+            .split("\n")
+            .map(line => line.trim())
+            .filter(line => line !== "" && !line.startsWith("#"));
+
+        return new SyncRules(excludedNotebooks || [], patterns);
+    }
+
+    /**
+     * Create the rules from a plain object, e.g. received through a WebSocket payload.
+     *
+     * @param obj A plain object with excludedNotebooks and patterns properties.
+     * @returns A new SyncRules instance.
+     */
+    static fromObject(obj: any): SyncRules {
+        return new SyncRules(obj?.excludedNotebooks || [], obj?.patterns || []);
+    }
+
+    /**
+     * Convert the rules to a plain object that can be serialized.
+     */
+    toObject(): { excludedNotebooks: string[], patterns: string[] } {
+        return {
+            excludedNotebooks: this.excludedNotebooks,
+            patterns: this.patterns
+        };
+    }
+
+    /**
+     * Check whether a whole notebook is excluded from sync.
+     *
+     * @param notebookId The notebook ID.
+     * @returns True if the notebook is excluded, false otherwise.
+     */
+    isNotebookExcluded(notebookId: string): boolean {
+        return this.excludedNotebooks.includes(notebookId);
+    }
+
+    /**
+     * Check whether a path is excluded from sync.
+     *
+     * @param path The path relative to the workspace root, e.g. `data/assets/image.png`.
+     * @returns True if the path is excluded, false otherwise.
+     */
+    isExcluded(path: string): boolean {
+        if (!path) return false;
+
+        const normalizedPath = path.replace(/^\/+/, "").replace(/\/+$/, "");
+
+        const notebookMatch = normalizedPath.match(/^data\/([^\/]+)/);
+        if (notebookMatch && this.isNotebookExcluded(notebookMatch[1]))
+            return true;
+
+        let excluded = false;
+        for (const pattern of this.compiledPatterns) {
+            if (pattern.regExp.test(normalizedPath))
+                excluded = !pattern.include;
+        }
+
+        return excluded;
+    }
+
+    /**
+     * Compile a glob pattern into a regular expression matching full paths.
+     *
+     * @param pattern The glob pattern.
+     * @returns The compiled pattern, or null if the pattern is invalid.
+     */
+    private static compilePattern(pattern: string): SyncRulePattern | null {
+        let include = false;
+        if (pattern.startsWith("!")) {
+            include = true;
+            pattern = pattern.substring(1);
+        }
+
+        pattern = pattern.replace(/^\/+/, "").replace(/\/+$/, "");
+        if (!pattern) return null;
+
+        // Patterns without a slash match the item name at any depth
+        const anyDepth = !pattern.includes("/");
+
+        let source = "";
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+
+            if (char === "*" && pattern[i + 1] === "*") {
+                // "**/" matches zero or more directories, a trailing "**" matches everything inside
+                if (pattern[i + 2] === "/") {
+                    source += "(?:.*/)?";
+                    i += 2;
+                } else {
+                    source += ".*";
+                    i += 1;
+                }
+            } else if (char === "*") {
+                source += "[^/]*";
+            } else if (char === "?") {
+                source += "[^/]";
+            } else {
+                source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+            }
+        }
+
+        // "dir/**" also matches the directory itself, so that it is not scanned at all
+        source = source.replace(/\/\.\*$/, "(?:/.*)?");
+
+        try {
+            return {
+                regExp: new RegExp(`^${anyDepth ? "(?:.*/)?" : ""}${source}$`),
+                include
+            };
+        } catch (error) {
+            consoleWarn(`Invalid sync rule pattern ${pattern}:`, error);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,273 @@
+import { Dialog } from "siyuan";
+import { getFileBlob, readDir, removeFile } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { HashManifest, Remote, SYNC_RUNS_DIR, SyncUtils } from "@/sync";
+import { SyncDirection, SyncFileOperation, SyncFileOperationType } from "@/types/sync-status";
+
+/**
+ * An operation planned by a sync run, stored without the remotes.
+ */
+export interface SyncRunOperation {
+    id: string;
+    type: SyncFileOperationType;
+    path: string;
+    // 0 for the local device, 1 for the peer
+    destination: 0 | 1;
+    // For deletions, the tombstone recorded on the destination, on its clock
+    tombstone?: number;
+    options?: SyncFileOperation["options"];
+}
+
+/**
+ * The state of a sync run, saved while it runs and removed once it completes.
+ */
+export interface SyncRunState {
+    id: string;
+    peerUrl: string;
+    peerName: string;
+    startedAt: number;
+    direction: SyncDirection;
+    operations: SyncRunOperation[];
+    completed: string[];
+}
+
+/**
+ * Records the planned and completed operations of a sync while it runs, in the sync config directory of the local device.
+ * If the sync is interrupted, the next sync with the same peer finds the record and can resume the remaining operations.
+ * Each peer has its own record, so that syncing with the other peers does not overwrite it.
+ */
+export class SyncRun {
+    /**
+     * The delay between two saves of the record, in milliseconds.
+     */
+    static readonly SAVE_DELAY = 2000;
+
+    private state: SyncRunState;
+    private remotes: [Remote, Remote];
+    private ids: Map<SyncFileOperation, string> = new Map();
+    private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+    private saveQueue: Promise<void> = Promise.resolve();
+    private saved: boolean = false;
+
+    constructor(remotes: [Remote, Remote], direction: SyncDirection) {
+        this.remotes = remotes;
+        this.state = {
+            id: SyncUtils.generateInstanceId(),
+            peerUrl: remotes[1].url,
+            peerName: remotes[1].name,
+            startedAt: Date.now(),
+            direction,
+            operations: [],
+            completed: []
+        };
+    }
+
+    /**
+     * Record operations about to be executed.
+     *
+     * @param operations The planned operations.
+     */
+    addPlanned(operations: SyncFileOperation[]) {
+        for (const operation of operations) {
+            const path = operation.source?.filePath || operation.destination?.filePath;
+            if (!path || !operation.destination) continue;
+
+            const id = String(this.state.operations.length);
+            this.ids.set(operation, id);
+            this.state.operations.push({
+                id,
+                type: operation.operationType,
+                path,
+                destination: operation.destination.url === this.remotes[0].url ? 0 : 1,
+                options: operation.options
+            });
+        }
+
+        this.scheduleSave();
+    }
+
+    /**
+     * Record an executed operation.
+     *
+     * @param operation The completed operation.
+     */
+    markCompleted(operation: SyncFileOperation) {
+        const id = this.ids.get(operation);
+        if (id === undefined) return;
+
+        // Deletions are only saved to the tombstones at the end of the sync, they are kept here meanwhile
+        if (operation.operationType === SyncFileOperationType.Delete) {
+            const path = operation.destination?.filePath;
+            const tombstone = path !== undefined ? operation.destination.tombstones.get(path) : undefined;
+            if (tombstone !== undefined) this.state.operations[Number(id)].tombstone = tombstone;
+        }
+
+        this.state.completed.push(id);
+        this.scheduleSave();
+    }
+
+    /**
+     * Save the record now, when the sync stops before its end.
+     */
+    async flush() {
+        if (this.saveTimeout !== null) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+        }
+
+        if (this.state.operations.length === 0) {
+            await this.finish();
+            return;
+        }
+
+        await this.save();
+        consoleLog(`Sync interrupted after ${this.state.completed.length} of ${this.state.operations.length} operations, the remaining ones can be resumed.`);
+    }
+
+    /**
+     * Remove the record, the sync completed.
+     */
+    async finish() {
+        if (this.saveTimeout !== null) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+        }
+
+        await this.saveQueue;
+        if (this.saved) await SyncRun.clear(this.state.peerUrl);
+    }
+
+    private scheduleSave() {
+        if (this.saveTimeout !== null) return;
+
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null;
+            this.save();
+        }, SyncRun.SAVE_DELAY);
+    }
+
+    /**
+     * Write the record to disk, one write at a time.
+     */
+    private save(): Promise<void> {
+        const content = JSON.stringify(this.state);
+        this.saved = true;
+
+        this.saveQueue = this.saveQueue.then(async () => {
+            const path = await SyncRun.getPath(this.state.peerUrl);
+            const file = new File([content], path.split("/").pop(), { lastModified: Date.now() });
+            if (!await SyncUtils.putFile(path, file))
+                consoleError("Error saving the sync run record");
+        });
+
+        return this.saveQueue;
+    }
+
+    /**
+     * Get the path of the record of the syncs with a peer.
+     *
+     * @param peerUrl The URL of the peer.
+     */
+    static async getPath(peerUrl: string): Promise<string> {
+        const hash = await HashManifest.computeHash(new Blob([peerUrl]));
+        return `${SYNC_RUNS_DIR}${hash ? hash.substring(0, 16) : peerUrl.replace(/[^a-zA-Z0-9.-]/g, "_")}.json`;
+    }
+
+    /**
+     * Load the record of an interrupted sync with a peer.
+     *
+     * @param peerUrl The URL of the peer.
+     * @returns The state of the interrupted sync, or null if the last sync with the peer completed.
+     */
+    static async load(peerUrl: string): Promise<SyncRunState | null> {
+        const remote = Remote.default();
+
+        try {
+            const path = await SyncRun.getPath(peerUrl);
+            const dir = await readDir(SYNC_RUNS_DIR, remote.url, SyncUtils.getHeaders(remote.key));
+            if (!dir || !dir.some(file => file.name === path.split("/").pop())) return null;
+
+            const blob = await getFileBlob(path, remote.url, SyncUtils.getHeaders(remote.key));
+            if (!blob) {
+                consoleWarn("Failed to fetch the sync run record");
+                return null;
+            }
+
+            return JSON.parse(await blob.text());
+        } catch (error) {
+            consoleError("Error loading the sync run record:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Remove the record of the last sync with a peer.
+     *
+     * @param peerUrl The URL of the peer.
+     */
+    static async clear(peerUrl: string) {
+        const remote = Remote.default();
+
+        try {
+            await removeFile(await SyncRun.getPath(peerUrl), remote.url, SyncUtils.getHeaders(remote.key));
+        } catch (error) {
+            consoleWarn("Failed to remove the sync run record:", error);
+        }
+    }
+
+    /**
+     * Get the operations of a run which were not completed.
+     */
+    static getPendingOperations(state: SyncRunState): SyncRunOperation[] {
+        const completed = new Set(state.completed);
+        return state.operations.filter(operation => !completed.has(operation.id));
+    }
+
+    /**
+     * Get the deletions completed by a run, whose tombstones were not saved.
+     */
+    static getCompletedDeletions(state: SyncRunState): SyncRunOperation[] {
+        const completed = new Set(state.completed);
+        return state.operations.filter(operation =>
+            completed.has(operation.id) && operation.type === SyncFileOperationType.Delete && operation.tombstone !== undefined
+        );
+    }
+
+    /**
+     * Ask whether to resume an interrupted sync or to plan it again from scratch.
+     *
+     * @param i18n The plugin translations.
+     * @param state The state of the interrupted sync.
+     * @returns True to resume, false to plan again, also when the dialog is closed.
+     */
+    static askResume(i18n: any, state: SyncRunState): Promise<boolean> {
+        return new Promise(resolve => {
+            let resume = false;
+
+            const dialog = new Dialog({
+                title: i18n.resumeSyncTitle,
+                content: `<div class="b3-dialog__content"></div>
+<div class="b3-dialog__action">
+    <button class="b3-button b3-button--cancel">${i18n.resumeSyncReplan}</button><div class="fn__space"></div>
+    <button class="b3-button b3-button--text">${i18n.resumeSyncResume}</button>
+</div>`,
+                width: "min(520px, 92vw)",
+                destroyCallback: () => resolve(resume)
+            });
+
+            // The peer name is user controlled
+            (dialog.element.querySelector(".b3-dialog__content") as HTMLElement).textContent = i18n.resumeSyncDesc
+                .replace("{{remoteName}}", state.peerName)
+                .replace("{{startedAt}}", new Date(state.startedAt).toLocaleString())
+                .replace("{{completed}}", String(state.completed.length))
+                .replace("{{planned}}", String(state.operations.length));
+
+            const buttons = dialog.element.querySelectorAll(".b3-dialog__action .b3-button");
+            buttons[0].addEventListener("click", () => dialog.destroy());
+            buttons[1].addEventListener("click", () => {
+                resume = true;
+                dialog.destroy();
+            });
+        });
+    }
+}
@@ -0,0 +1,159 @@
+import BetterSyncPlugin from "..";
+import { consoleLog, consoleWarn } from "@/logging";
+import { SyncManager, SyncUtils } from "@/sync";
+import { SyncStatus } from "@/types/sync-status";
+
+export class SyncScheduler {
+    /**
+     * The longest delay between two runs after repeated failures, in milliseconds.
+     */
+    static readonly MAX_DELAY = 4 * 60 * 60 * 1000;
+
+    private plugin: BetterSyncPlugin;
+    private syncManager: SyncManager;
+    private timeoutId: ReturnType<typeof setTimeout> | null = null;
+    private idleTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    private stopped: boolean = false;
+    private running: boolean = false;
+
+    /**
+     * The number of consecutive failed runs, each of them doubles the delay before the next periodic run.
+     */
+    private failures: number = 0;
+
+    constructor(plugin: BetterSyncPlugin, syncManager: SyncManager) {
+        this.plugin = plugin;
+        this.syncManager = syncManager;
+    }
+
+    /**
+     * Start running background syncs with the configured interval, replacing the current schedule.
+     * No periodic run is scheduled if the interval is not set, idle syncs only depend on their own delay.
+     */
+    start() {
+        this.clearTimers();
+        this.stopped = false;
+        this.failures = 0;
+
+        const interval = this.getInterval();
+        if (interval <= 0) return;
+
+        consoleLog(`Periodic sync scheduled every ${interval / 60000} minutes.`);
+        this.schedule(interval);
+    }
+
+    /**
+     * Stop running background syncs.
+     */
+    stop() {
+        this.stopped = true;
+        this.clearTimers();
+    }
+
+    /**
+     * Record an edit or a protyle switch.
+     * Once the editor has been idle for the configured delay after the last activity, a sync is started.
+     */
+    notifyActivity() {
+        if (this.stopped) return;
+
+        if (this.idleTimeoutId !== null) {
+            clearTimeout(this.idleTimeoutId);
+            this.idleTimeoutId = null;
+        }
+
+        const idleDelay = this.getIdleDelay();
+        if (idleDelay <= 0) return;
+
+        this.idleTimeoutId = setTimeout(async () => {
+            this.idleTimeoutId = null;
+
+            consoleLog(`Editor idle for ${idleDelay / 60000} minutes, starting a sync.`);
+            await this.syncReachablePeers();
+        }, idleDelay);
+    }
+
+    private clearTimers() {
+        if (this.timeoutId !== null) {
+            clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+
+        if (this.idleTimeoutId !== null) {
+            clearTimeout(this.idleTimeoutId);
+            this.idleTimeoutId = null;
+        }
+    }
+
+    /**
+     * Get the configured interval in milliseconds, 0 if periodic sync is disabled.
+     */
+    private getInterval(): number {
+        const minutes = Number(this.plugin.settingsManager.getPref("syncInterval"));
+        return minutes > 0 ? minutes * 60 * 1000 : 0;
+    }
+
+    /**
+     * Get the configured idle delay in milliseconds, 0 if idle sync is disabled.
+     */
+    private getIdleDelay(): number {
+        const minutes = Number(this.plugin.settingsManager.getPref("idleSyncDelay"));
+        return minutes > 0 ? minutes * 60 * 1000 : 0;
+    }
+
+    private schedule(delay: number) {
+        this.timeoutId = setTimeout(() => this.run(), delay);
+    }
+
+    /**
+     * Run a periodic sync, then schedule the next one.
+     * The delay doubles after each failed run, up to the maximum delay, and goes back to the interval after a success.
+     */
+    private async run() {
+        this.timeoutId = null;
+
+        await this.syncReachablePeers();
+
+        // The schedule may have been stopped or replaced while syncing
+        if (this.stopped || this.timeoutId !== null) return;
+
+        const interval = this.getInterval();
+        if (interval <= 0) return;
+
+        this.schedule(Math.min(interval * 2 ** this.failures, Math.max(interval, SyncScheduler.MAX_DELAY)));
+    }
+
+    /**
+     * Sync with the reachable peers, unless a sync is already in progress.
+     */
+    private async syncReachablePeers() {
+        if (this.running || this.syncManager.getSyncStatus() === SyncStatus.InProgress) {
+            consoleLog("Background sync skipped, a sync is already in progress.");
+            return;
+        }
+
+        this.running = true;
+
+        try {
+            const peers = this.syncManager.getPeers();
+            const reachable = await Promise.all(peers.map(peer => SyncUtils.isReachable(peer)));
+            const reachablePeers = peers.filter((_, index) => reachable[index]);
+
+            if (reachablePeers.length === 0) {
+                consoleLog("Background sync skipped, no peer is reachable.");
+                return;
+            }
+
+            await this.syncManager.syncHandler(false, reachablePeers);
+
+            if (this.syncManager.getSyncStatus() === SyncStatus.Failed) {
+                this.failures++;
+                consoleWarn(`Background sync failed ${this.failures} times in a row, backing off.`);
+            } else {
+                this.failures = 0;
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+}
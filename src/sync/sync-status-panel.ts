@@ -0,0 +1,96 @@
+import { Dialog } from "siyuan";
+import BetterSyncPlugin from "..";
+import { SyncProgress } from "@/sync";
+import { SyncFileOperationType, SyncProgressInfo, SyncStatus, SyncStatusCallback } from "@/types/sync-status";
+
+export class SyncStatusPanel {
+    /**
+     * Show the progress of the running sync in a dialog, updated until the dialog is closed.
+     * The sync can be cancelled from there.
+     *
+     * @param plugin The plugin instance.
+     */
+    static show(plugin: BetterSyncPlugin) {
+        const i18n = plugin.i18n;
+
+        const callback: SyncStatusCallback = (status, progress) => {
+            SyncStatusPanel.render(plugin, container, status, progress);
+            cancelButton.disabled = status !== SyncStatus.InProgress;
+        };
+
+        const dialog = new Dialog({
+            title: i18n.syncStatusTitle,
+            content: `<div class="b3-dialog__content better-sync-status"></div>
+<div class="b3-dialog__action">
+    <button class="b3-button b3-button--cancel">${i18n.cancelSync}</button>
+</div>`,
+            width: "min(560px, 92vw)",
+            destroyCallback: () => plugin.syncManager.offSyncStatusChange(callback)
+        });
+
+        const container = dialog.element.querySelector(".better-sync-status") as HTMLElement;
+        const cancelButton = dialog.element.querySelector(".b3-dialog__action .b3-button") as HTMLButtonElement;
+        cancelButton.addEventListener("click", () => {
+            cancelButton.disabled = true;
+            plugin.syncManager.cancelSync();
+        });
+
+        callback(plugin.syncManager.getSyncStatus(), plugin.syncManager.getSyncProgress());
+        plugin.syncManager.onSyncStatusChange(callback);
+    }
+
+    /**
+     * Render the progress, it is rendered again at each change.
+     */
+    private static render(plugin: BetterSyncPlugin, container: HTMLElement, status: SyncStatus, progress: SyncProgressInfo | null) {
+        const i18n = plugin.i18n;
+
+        container.innerHTML = "";
+
+        if (!progress) {
+            const idle = document.createElement("div");
+            idle.className = "b3-label";
+            idle.textContent = status === SyncStatus.InProgress ? i18n.syncInProgress : i18n.syncStatusIdle;
+            container.appendChild(idle);
+            return;
+        }
+
+        const title = document.createElement("div");
+        title.className = "better-sync-status__title";
+        title.textContent = i18n.syncingWithRemote.replace("{{remoteName}}", progress.remoteName);
+
+        const bar = document.createElement("div");
+        bar.className = "better-sync-status__bar";
+        const barFill = document.createElement("div");
+        barFill.className = "better-sync-status__bar-fill";
+        barFill.style.width = `${Math.floor(SyncProgress.getRatio(progress) * 100)}%`;
+        bar.appendChild(barFill);
+
+        const summary = document.createElement("div");
+        summary.className = "b3-label__text better-sync-status__summary";
+        summary.textContent = SyncProgress.describe(i18n, progress).split("\n").slice(1).join("\n");
+
+        container.append(title, bar, summary);
+
+        const types = Object.keys(progress.planned).map(Number) as SyncFileOperationType[];
+        if (types.length === 0) return;
+
+        const table = document.createElement("table");
+        table.className = "better-sync-status__table";
+        table.innerHTML = `<thead><tr><th>${i18n.syncPreviewOperation}</th><th>${i18n.syncStatusCompleted}</th><th>${i18n.syncStatusPlanned}</th></tr></thead>`;
+
+        const tbody = document.createElement("tbody");
+        for (const type of types) {
+            const row = document.createElement("tr");
+            for (const text of [SyncFileOperationType[type], String(progress.completed[type] || 0), String(progress.planned[type])]) {
+                const cell = document.createElement("td");
+                cell.textContent = text;
+                row.appendChild(cell);
+            }
+            tbody.appendChild(row);
+        }
+
+        table.appendChild(tbody);
+        container.appendChild(table);
+    }
+}
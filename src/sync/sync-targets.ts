@@ -1,3 +1,5 @@
+import { SyncRules } from "./sync-rules";
+
 export interface SyncTarget {
     path: string;
     excludedItems?: string[];
@@ -14,12 +16,16 @@ export interface SyncTarget {
 export interface SyncTargetsConfig {
     notebooks: Notebook[];
     trackConflicts: boolean;
+    syncRules?: SyncRules;
 }
 
 export function getSyncTargets(config: SyncTargetsConfig): SyncTarget[] {
-    const { notebooks, trackConflicts } = config;
+    const { trackConflicts, syncRules } = config;
+
+    // Excluded notebooks are dropped entirely, so they never leave the device
+    const notebooks = config.notebooks.filter(notebook => !syncRules?.isNotebookExcluded(notebook.id));
 
-    return [
+    const targets: SyncTarget[] = [
         // Notebook directories
         ...notebooks.map(notebook => ({
             path: `data/${notebook.id}`,
@@ -36,10 +42,11 @@ export function getSyncTargets(config: SyncTargetsConfig): SyncTarget[] {
             path: `data/${notebook.id}/.siyuan`,
         })),
 
-        // Assets directory
+        // Assets directory, conflicting versions are kept side by side
         {
             path: `data/assets`,
             options: {
+                trackConflicts: trackConflicts,
                 trackUpdatedFiles: true
             }
         },
@@ -50,9 +57,9 @@ export function getSyncTargets(config: SyncTargetsConfig): SyncTarget[] {
         { path: "data/widgets", options: { deleteFoldersOnly: true } },
         { path: "data/emojis", options: { deleteFoldersOnly: true } },
 
-        // Storage/av directory with file tracking
-        { path: "data/storage/av", options: { trackUpdatedFiles: true } },
-        { path: "data/storage/riff", options: { trackUpdatedFiles: true } },
+        // Databases and flashcards, conflicting versions are merged
+        { path: "data/storage/av", options: { trackConflicts: trackConflicts, trackUpdatedFiles: true } },
+        { path: "data/storage/riff", options: { trackConflicts: trackConflicts, trackUpdatedFiles: true } },
 
         // Directories without deletions
         {
@@ -76,4 +83,6 @@ export function getSyncTargets(config: SyncTargetsConfig): SyncTarget[] {
             options: { onlyIfMissing: true, avoidDeletions: true }
         },
     ];
+
+    return targets.filter(target => !syncRules?.isExcluded(target.path));
 }
@@ -1,25 +1,71 @@
 import { consoleError, consoleLog } from "@/logging";
-import { getFileBlob, moveDocs, putFile, readDir, removeFile, removeIndexes, upsertIndexes } from "../api";
-import { INSTANCE_ID_FILE, Remote, StorageItem, SYNC_CONFIG_DIR, SYNC_LOGS_DIR } from "@/sync";
+import { currentTime, getFileBlob, moveDocs, putFile, readDir, removeFile, removeIndexes, requestWithHeaders, upsertIndexes } from "../api";
+import { INSTANCE_ID_FILE, Remote, StorageItem, SYNC_CONFIG_DIR, SYNC_LOGS_DIR, SyncRules } from "@/sync";
+
+/**
+ * Reads and writes the files of the peers through another channel than the file API, to encrypt their contents.
+ */
+export interface PeerFileTransport {
+    /**
+     * Whether the files of the peers must go through the transport.
+     */
+    isActive(): boolean;
+
+    /**
+     * Read a file of a peer.
+     *
+     * @returns The content of the file, or null if it does not exist.
+     * @throws If the file could not be read.
+     */
+    read(path: string, peer: Remote, signal?: AbortSignal): Promise<Blob | null>;
+
+    /**
+     * Write a file to a peer.
+     *
+     * @param index Whether the peer updates its indexes once the file is written.
+     * @throws If the file could not be written.
+     */
+    write(path: string, file: File, peer: Remote, timestamp: number, index: boolean, signal?: AbortSignal): Promise<void>;
+}
 
 export class SyncUtils {
+    /**
+     * Clock offsets below this are measurement noise and are ignored, in seconds.
+     */
+    static readonly CLOCK_OFFSET_TOLERANCE = 5;
+
+    private static peerTransport: PeerFileTransport | null = null;
+
+    /**
+     * Set the transport of the files of the peers, used by readFile and writeFile.
+     *
+     * @param transport The transport, or null to use the file API of the peers.
+     */
+    static setPeerTransport(transport: PeerFileTransport | null) {
+        SyncUtils.peerTransport = transport;
+    }
+
     /**
      * Recursively retrieves all files in a directory.
      * @param path The base path to start searching from.
      * @param remote The remote information containing URL and key.
      * @param skipSymlinks Whether to skip symbolic links.
      * @param excludedItems Array of file/directory names to exclude from sync.
+     * @param syncRules User defined rules to exclude paths from sync.
+     * @param signal Aborts the scan when the sync is cancelled.
      * @returns A StorageItem representing the directory and its contents, or null if not found.
      */
     static async getDirFilesRecursively(
         path: string,
         remote: Remote,
         skipSymlinks: boolean = true,
-        excludedItems: string[] = []
+        excludedItems: string[] = [],
+        syncRules: SyncRules = new SyncRules(),
+        signal?: AbortSignal
     ): Promise<StorageItem> {
         let storageItem: StorageItem = new StorageItem(path);
 
-        const dirResponse = await readDir(path, remote.url, SyncUtils.getHeaders(remote.key));
+        const dirResponse = await readDir(path, remote.url, SyncUtils.getHeaders(remote.key), undefined, signal);
 
         if (!dirResponse) {
             consoleLog("No files found or invalid response for path:", path);
@@ -28,7 +74,8 @@ export class SyncUtils {
 
         const dir = dirResponse
             .filter(file => !(skipSymlinks && file.isSymlink))
-            .filter(file => !excludedItems.includes(file.name));
+            .filter(file => !excludedItems.includes(file.name))
+            .filter(file => !syncRules.isExcluded(`${path}/${file.name}`));
 
         if (!dir || dir.length === 0) {
             consoleLog("No files found or invalid response for path:", path);
@@ -43,7 +90,7 @@ export class SyncUtils {
         // Collect all promises for subdirectories
         const promises = dir
             .filter(file => file.isDir)
-            .map(file => SyncUtils.getDirFilesRecursively(`${path}/${file.name}`, remote, skipSymlinks, excludedItems));
+            .map(file => SyncUtils.getDirFilesRecursively(`${path}/${file.name}`, remote, skipSymlinks, excludedItems, syncRules, signal));
 
         // Wait for all promises to resolve
         const results = await Promise.all(promises);
@@ -60,42 +107,117 @@ export class SyncUtils {
      * Delete a file or directory with error handling and logging.
      * @param filePath The path of the file or directory to delete.
      * @param remote The remote information containing URL and key.
+     * @param signal Aborts the deletion when the sync is cancelled, the abort error is thrown.
      */
     static async deleteFile(
         filePath: string,
-        remote: Remote
+        remote: Remote,
+        signal?: AbortSignal
     ) {
         try {
             consoleLog(`Deleting ${filePath} from remote ${remote.name}`);
-            await removeFile(filePath, remote.url, SyncUtils.getHeaders(remote.key));
+            await removeFile(filePath, remote.url, SyncUtils.getHeaders(remote.key), signal);
             await removeIndexes([filePath.replace("data/", "")], remote.url, SyncUtils.getHeaders(remote.key));
         } catch (error) {
+            if (signal?.aborted) throw error;
             consoleError(`Error deleting file ${filePath}:`, error);
         }
     }
 
+    /**
+     * Write a file and update its index.
+     * @param signal Aborts the upload when the sync is cancelled, the abort error is thrown.
+     * @returns False if the file could not be written.
+     */
     static async putFile(
         filePath: string,
         file: File,
         url: string = "",
         key: string = "",
-        timestamp?: number
+        timestamp?: number,
+        signal?: AbortSignal
     ): Promise<boolean> {
         try {
-            await putFile(filePath, false, file, url, SyncUtils.getHeaders(key), timestamp);
+            await putFile(filePath, false, file, url, SyncUtils.getHeaders(key), timestamp, signal);
             await upsertIndexes([filePath.replace("data/", "")], url, SyncUtils.getHeaders(key));
             consoleLog(`File ${file.name} (${filePath}) with timestamp ${timestamp} synced successfully.`);
             return true;
         } catch (error) {
+            if (signal?.aborted) throw error;
             consoleError(`Error putting file ${filePath} to ${url}:`, error);
             return false;
         }
     }
 
+    /**
+     * Read a file, through the peer transport when it is active and the remote is a peer.
+     *
+     * @param path The path of the file.
+     * @param remote The remote information containing URL and key.
+     * @param timeoutMs The timeout of the file API, in milliseconds.
+     * @param signal Aborts the read when the sync is cancelled.
+     * @returns The content of the file, or null if it does not exist.
+     * @throws If the file could not be read.
+     */
+    static async readFile(
+        path: string,
+        remote: Remote,
+        timeoutMs?: number,
+        signal?: AbortSignal
+    ): Promise<Blob | null> {
+        if (!remote.isLocal() && SyncUtils.peerTransport?.isActive())
+            return SyncUtils.peerTransport.read(path, remote, signal);
+
+        return getFileBlob(path, remote.url, SyncUtils.getHeaders(remote.key), timeoutMs, signal);
+    }
+
+    /**
+     * Write a file, through the peer transport when it is active and the remote is a peer.
+     *
+     * @param path The path of the file.
+     * @param file The content of the file.
+     * @param remote The remote information containing URL and key.
+     * @param timestamp The modification time of the file, in milliseconds.
+     * @param index Whether to update the index of the file, only needed for the files of the notebooks.
+     * @param signal Aborts the write when the sync is cancelled, the abort error is thrown.
+     * @returns False if the file could not be written.
+     */
+    static async writeFile(
+        path: string,
+        file: File,
+        remote: Remote,
+        timestamp: number = Date.now(),
+        index: boolean = true,
+        signal?: AbortSignal
+    ): Promise<boolean> {
+        if (remote.isLocal() || !SyncUtils.peerTransport?.isActive()) {
+            if (index) return SyncUtils.putFile(path, file, remote.url, remote.key, timestamp, signal);
+
+            try {
+                await putFile(path, false, file, remote.url, SyncUtils.getHeaders(remote.key), timestamp, signal);
+                return true;
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                consoleError(`Error putting file ${path} to ${remote.url}:`, error);
+                return false;
+            }
+        }
+
+        try {
+            await SyncUtils.peerTransport.write(path, file, remote, timestamp, index, signal);
+            return true;
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            consoleError(`Error writing file ${path} to ${remote.name}:`, error);
+            return false;
+        }
+    }
+
     static async moveDocs(
         path: string,
         toPath: string,
-        remote: Remote
+        remote: Remote,
+        signal?: AbortSignal
     ) {
         const matchPath = path.match(/^data\/([^\/]+)\/(.+)$/);
         if (!matchPath) {
@@ -115,8 +237,9 @@ export class SyncUtils {
         consoleLog(`Moving directory ${path} to ${toPath} on remote ${remote.name}`);
 
         try {
-            await moveDocs([docPath], notebookIdTo, docPathTo, remote.url, SyncUtils.getHeaders(remote.key));
+            await moveDocs([docPath], notebookIdTo, docPathTo, remote.url, SyncUtils.getHeaders(remote.key), signal);
         } catch (error) {
+            if (signal?.aborted) throw error;
             consoleError(`Error moving directory ${path} to ${toPath}:`, error);
         }
     }
@@ -158,7 +281,7 @@ export class SyncUtils {
         remote: Remote
     ): Promise<string> {
         const path = `${SYNC_CONFIG_DIR}${INSTANCE_ID_FILE}`;
-        const blob = await getFileBlob(path, remote.url, SyncUtils.getHeaders(remote.key));
+        const blob = await SyncUtils.readFile(path, remote);
         return blob ? await blob.text() : "";
     }
 
@@ -174,7 +297,7 @@ export class SyncUtils {
     ): Promise<void> {
         const path = `${SYNC_CONFIG_DIR}${INSTANCE_ID_FILE}`;
         const file = new File([instanceId], INSTANCE_ID_FILE, { lastModified: Date.now() });
-        await SyncUtils.putFile(path, file, remote.url, remote.key);
+        await SyncUtils.writeFile(path, file, remote);
     }
 
     /**
@@ -186,6 +309,47 @@ export class SyncUtils {
         return crypto.randomUUID();
     }
 
+    /**
+     * Check whether a remote answers to API requests.
+     *
+     * @param remote The remote information containing URL and key.
+     * @param timeoutMs The time to wait for an answer, in milliseconds.
+     * @returns True if the remote answered successfully.
+     */
+    static async isReachable(remote: Remote, timeoutMs: number = 5000): Promise<boolean> {
+        try {
+            const version = await requestWithHeaders(`${remote.url}/api/system/version`, {}, SyncUtils.getHeaders(remote.key), timeoutMs);
+            return version !== null;
+        } catch (error) {
+            consoleLog(`Remote ${remote.name} is not reachable:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Measure how far the clock of a remote is ahead of the local clock.
+     * The request time is split in two, assuming that the answer was computed halfway through.
+     *
+     * @param remote The remote information containing URL and key.
+     * @returns The offset in seconds, 0 if it is within the tolerance, or null if the remote did not answer.
+     */
+    static async measureClockOffset(remote: Remote): Promise<number | null> {
+        const start = Date.now();
+        let remoteTime: number;
+        try {
+            remoteTime = await currentTime(remote.url, SyncUtils.getHeaders(remote.key));
+        } catch (error) {
+            consoleLog(`Failed to read the clock of ${remote.name}:`, error);
+            return null;
+        }
+        const end = Date.now();
+
+        if (typeof remoteTime !== "number") return null;
+
+        const offset = Math.round((remoteTime - (start + end) / 2) / 1000);
+        return Math.abs(offset) < SyncUtils.CLOCK_OFFSET_TOLERANCE ? 0 : offset;
+    }
+
     /**
      * Get a file's timestamp.
      *
@@ -210,7 +374,7 @@ export class SyncUtils {
         const logFilePath = `${SYNC_LOGS_DIR}${timestamp}.log`;
 
         const file = new File([content], logFilePath, { lastModified: timestamp });
-        await SyncUtils.putFile(logFilePath, file, remote.url, remote.key, timestamp);
+        await SyncUtils.writeFile(logFilePath, file, remote, timestamp);
 
         // Cleanup old log files after writing
         await SyncUtils.cleanupOldLogs(remote);
@@ -267,7 +431,7 @@ export class SyncUtils {
         if (!logFiles || logFiles.length === 0) return null;
 
         const path = `${SYNC_LOGS_DIR}/${logFiles[0].name}`;
-        const blob = await getFileBlob(path, remote.url, SyncUtils.getHeaders(remote.key));
+        const blob = await SyncUtils.readFile(path, remote);
         return blob ? await blob.text() : null;
     }
 
@@ -338,7 +502,7 @@ export class SyncUtils {
         if (!logFiles || logFiles.length === 0) return null;
 
         const path = `${SYNC_LOGS_DIR}/${logFiles[0].name}`;
-        const blob = await getFileBlob(path, remote.url, SyncUtils.getHeaders(remote.key));
+        const blob = await SyncUtils.readFile(path, remote);
         return blob ? new File([blob], logFiles[0].name, { lastModified: logFiles[0].updated * 1000 }) : null;
     }
 }
@@ -7,34 +7,46 @@ import {
     reloadFiletree,
     getUnusedAssets,
     requestWithHeaders,
+    setFileContentGuard,
     upload
 } from "@/api";
 import BetterSyncPlugin from "..";
-import { IProtyle, Protyle, showMessage } from "siyuan";
-import { ConflictHandler, LOCK_FILE, Remote, SYNC_CONFIG_DIR, StorageItem, SyncHistory, SyncUtils, WebSocketManager, getSyncTargets } from "@/sync";
+import { confirm, IProtyle, Protyle, showMessage } from "siyuan";
+import { ConflictEntry, ConflictHandler, ConflictRegistry, ConflictResolution, ChunkedTransfer, DataMerger, DeltaSync, DocumentMerger, FileCopy, HashManifest, LockInfo, Outbox, OutboxEntry, OutboxEntryType, PeerMonitor, PeerState, Remote, StorageItem, SyncHistory, SyncJournal, SyncLock, SyncLockError, SyncPreview, SyncProgress, SyncRun, SyncRunState, SyncRules, SyncScheduler, SyncUtils, SYNC_TRANSFERS_DIR, Tombstones, RpcOptions, WebSocketManager, WebSocketRpc, getSyncTargets } from "@/sync";
 import { Payload } from "@/libs/payload";
-import { SyncStatus, SyncStatusCallback, SyncFileResult, SyncFileOperation, SyncFileOperationType } from "@/types/sync-status";
+import PromiseLimitPool from "@/libs/promise-pool";
+import { Compression } from "@/libs/compression";
+import { Encryption } from "@/libs/encryption";
+import { Capability, Protocol, ProtocolInfo } from "@/libs/protocol";
+import { SyncProgressInfo, SyncStatus, SyncStatusCallback, SyncFileResult, SyncFileOperation, SyncFileOperationType, SyncDirection } from "@/types/sync-status";
 import { consoleError, consoleLog, consoleWarn, SessionLog } from "@/logging";
 
 export class SyncManager {
+    /**
+     * The number of sync operations running at the same time.
+     */
+    private static readonly MAX_CONCURRENT_OPERATIONS = 8;
+
     // Plugin instance
     private plugin: BetterSyncPlugin;
 
     /**
-     * WebSocket managers for local and remote servers.
+     * WebSocket managers for the local server and the peers, keyed by the remote URL.
      * These are used to handle real-time updates and notifications during the sync process.
      */
-    private inputWebSocketManagers: [WebSocketManager, WebSocketManager] = [null, null];
-    private outputWebSocketManagers: [WebSocketManager, WebSocketManager] = [null, null];
+    private inputWebSocketManagers: Map<string, WebSocketManager> = new Map();
+    private outputWebSocketManagers: Map<string, WebSocketManager> = new Map();
+
+    /**
+     * The local server. It is always the first element of the pairs of remotes used while syncing.
+     */
+    private localRemote: Remote = Remote.default();
 
     /**
-     * Remotes array containing information about local and remote servers.
-     * The first element is always the local server, the second is the remote server.
+     * The enabled peers configured in the settings.
+     * Each of them is synced with the local server as the second element of a pair of remotes.
      */
-    private remotes: [Remote, Remote] = [
-        Remote.default(),
-        Remote.empty()
-    ];
+    private peers: Remote[] = [];
 
     /**
      * Map of loaded Protyles, where the key is the file path and the value is the Protyle instance.
@@ -60,6 +72,27 @@ export class SyncManager {
      */
     private remotelyUpdatedFiles: Set<string> = new Set();
 
+    /**
+     * Set of paths found on either remote during the current sync session, minus the deleted ones.
+     * After a full sync these paths exist on both remotes, and they are saved as the file index.
+     */
+    private syncedPaths: Set<string> = new Set();
+
+    /**
+     * Journal of the current sync session, keeping the previous version of the changed files so that the sync can be undone.
+     */
+    private journal: SyncJournal | null = null;
+
+    /**
+     * Runs the operations of the current sync session, a few at a time so that a cancelled sync stops quickly.
+     */
+    private operationPool = new PromiseLimitPool<void>(SyncManager.MAX_CONCURRENT_OPERATIONS);
+
+    /**
+     * The record of the planned and completed operations of the current sync, to resume it if it is interrupted.
+     */
+    private syncRun: SyncRun | null = null;
+
     /**
      * Original fetch function to restore after overriding it for custom sync behavior.
      * This is used to ensure that the original fetch functionality is preserved.
@@ -73,12 +106,25 @@ export class SyncManager {
     private conflictDetected: boolean = false;
 
     /**
-     * Map of pending directory requests, where the key is the request ID and the value is the resolve function.
-     * This is used to handle asynchronous directory file requests via WebSocket.
+     * Requests sent to the peers and answers to their requests, on top of the WebSocket connections.
+     */
+    private rpc: WebSocketRpc;
+
+    /**
+     * Map of the compression formats negotiated with the peers, where the key is the peer URL.
+     * Peers missing from the map receive uncompressed payloads.
+     */
+    private compressionFormats: Map<string, CompressionFormat> = new Map();
+
+    /**
+     * Map of the protocols of the peers, received with their app ID, where the key is the peer URL.
      */
-    private pendingDirRequests: Map<string, (files: StorageItem | null) => void> = new Map();
+    private peerProtocols: Map<string, ProtocolInfo> = new Map();
 
-    private receivedAppIds: Set<string> = new Set();
+    /**
+     * The devices already told to upgrade the plugin, so that the message is shown once per session.
+     */
+    private upgradeNotices: Set<string> = new Set();
 
     /**
      * Set of request IDs that are initiated via WebSocket communication.
@@ -89,11 +135,41 @@ export class SyncManager {
     private syncStatus: SyncStatus = SyncStatus.None;
     private statusCallbacks: SyncStatusCallback[] = [];
 
+    /**
+     * Scheduler of the periodic and idle background syncs.
+     */
+    private scheduler: SyncScheduler;
+
+    /**
+     * Durable queue of the instant sync changes, sent in order once the peers are reachable.
+     */
+    private outbox: Outbox;
+
+    /**
+     * Monitor of the peers reachability, shown in the status icon.
+     */
+    private peerMonitor: PeerMonitor;
+
     /**
      * Pending file changes that are waiting to be synced.
      */
     private pendingFileChanges: Map<string, number> = new Map();
 
+    /**
+     * The timers renewing the lease of the held locks and their renewal in progress, by remote URL.
+     */
+    private lockRenewals: Map<string, { timer: ReturnType<typeof setInterval>, pending: Promise<void> | null, lost: boolean }> = new Map();
+
+    /**
+     * The progress of the running sync, reported to the status callbacks.
+     */
+    private progress: SyncProgress;
+
+    /**
+     * Aborts the running sync, set while a sync is in progress.
+     */
+    private abortController: AbortController | null = null;
+
     /**
      * Constructor for the SyncManager class.
      * Initializes the plugin instance and overrides the fetch function to handle sync operations.
@@ -101,7 +177,31 @@ export class SyncManager {
      */
     constructor(plugin: BetterSyncPlugin) {
         this.plugin = plugin;
+        this.scheduler = new SyncScheduler(plugin, this);
+        this.outbox = new Outbox(
+            this.sendOutboxEntry.bind(this),
+            url => this.peers.find(peer => peer.url === url),
+            () => this.notifyStatusCallbacks()
+        );
+        this.progress = new SyncProgress(() => this.notifyStatusCallbacks());
+        this.peerMonitor = new PeerMonitor(() => this.peers, this.onPeerStateChange.bind(this));
+        this.rpc = new WebSocketRpc(
+            this.sendWebSocketRequest.bind(this),
+            message => this.transmitWebSocketMessage(message, this.outputWebSocketManagers.get(this.localRemote.url)),
+            () => ({
+                timeout: Number(this.plugin.settingsManager.getPref("webSocketTimeout")) * 1000 || 5000,
+                retries: Math.max(0, Number(this.plugin.settingsManager.getPref("webSocketRetries")) || 0)
+            }),
+            () => this.getEncryptionKey()
+        );
+        SyncUtils.setPeerTransport({
+            isActive: () => this.isEncryptionEnabled(),
+            read: (path, peer, signal) => this.readPeerFile(path, peer, signal),
+            write: (path, file, peer, timestamp, index, signal) => this.writePeerFile(path, file, peer, timestamp, index, signal)
+        });
+        setFileContentGuard(this.checkFileContentRequest.bind(this));
         this.init();
+        this.outbox.load();
 
         this.originalFetch = window.fetch.bind(window);
         window.fetch = this.customFetch.bind(this);
@@ -115,13 +215,29 @@ export class SyncManager {
         this.statusCallbacks.push(callback);
     }
 
+    /**
+     * Unregister a callback for sync status changes.
+     * @param callback The callback to unregister.
+     */
+    offSyncStatusChange(callback: SyncStatusCallback) {
+        this.statusCallbacks = this.statusCallbacks.filter(it => it !== callback);
+    }
+
     /**
      * Set the sync status and notify listeners.
      * @param status The new sync status.
      */
     private setSyncStatus(status: SyncStatus) {
         this.syncStatus = status;
-        this.statusCallbacks.forEach(callback => callback(status));
+        this.notifyStatusCallbacks();
+    }
+
+    /**
+     * Notify the listeners of the current status and progress.
+     */
+    private notifyStatusCallbacks() {
+        const progress = this.progress.get();
+        this.statusCallbacks.forEach(callback => callback(this.syncStatus, progress));
     }
 
     /**
@@ -134,41 +250,114 @@ export class SyncManager {
     }
 
     /**
-     * Getters
+     * Get the progress of the running sync.
+     *
+     * @return The progress, or null if no sync is running.
+     */
+    getSyncProgress(): SyncProgressInfo | null {
+        return this.progress.get();
+    }
+
+    /**
+     * Get a copy of the enabled peers.
+     *
+     * @return An array of Remote objects, one for each enabled peer.
      */
-    private getUrl(): string {
-        return this.plugin.settingsManager.getPref("siyuanUrl");
+    getPeers(): Remote[] {
+        return this.peers.map(peer => peer.clone());
     }
 
-    private getKey(): string {
-        return this.plugin.settingsManager.getPref("siyuanAPIKey");
+    /**
+     * Get the user defined rules to exclude notebooks and paths from sync.
+     *
+     * @return The SyncRules built from the current settings.
+     */
+    getSyncRules(): SyncRules {
+        return SyncRules.fromSettings(
+            this.plugin.settingsManager.getPref("syncExcludedNotebooks"),
+            this.plugin.settingsManager.getPref("syncExcludedPaths")
+        );
     }
 
-    private getNickname(): string {
-        return this.plugin.settingsManager.getPref("siyuanNickname");
+    /**
+     * Get the pairs of remotes to sync, one for each of the given peers.
+     * The first element of each pair is always the local server.
+     *
+     * @param peers The peers to pair with the local server, defaults to all the enabled peers.
+     * @return An array of remote pairs.
+     */
+    private getRemotePairs(peers: Remote[] = this.peers): [Remote, Remote][] {
+        return peers.map(peer => this.copyRemotes([this.localRemote, peer]));
     }
 
     /**
      * Initialize the SyncManager by setting up remotes and WebSocket connections.
-     * This method retrieves the URL, key, and nickname from the plugin settings
+     * This method retrieves the enabled peers from the plugin settings
      * and configures the remotes accordingly.
      * It also retrieves and sets the instance IDs for the remotes and setup the
      * WebSocket connections for real-time sync operations.
      */
     async init() {
-        this.remotes[1].url = this.getUrl() || "";
-        this.remotes[1].key = this.getKey() || "";
-        this.remotes[1].name = this.getNickname() || "remote";
+        const previousPeers = this.peers;
+
+        this.peers = this.plugin.settingsManager.getPeers().map(config => {
+            const peer = Remote.fromPeerConfig(config);
+            const previousPeer = previousPeers.find(it => it.url === peer.url);
+
+            peer.appId = previousPeer?.appId;
+            peer.instanceId = previousPeer?.instanceId;
+            return peer;
+        });
 
         // Update the instance ID for the local remote
-        await this.checkAndSetInstanceId(this.remotes[0]);
+        await this.checkAndSetInstanceId(this.localRemote);
 
         // Load sync history for the local remote
-        await this.loadSyncHistory(this.remotes[0]);
+        await this.loadSyncHistory(this.localRemote);
 
         // Update WebSocket managers with the new remotes
         this.cleanupWebSockets();
         await this.setupWebSockets();
+
+        // Restart the periodic sync and the peers monitor, as the settings may have changed
+        this.scheduler.start();
+        this.peerMonitor.start();
+    }
+
+    /**
+     * Stop the background syncs and the peers monitor and cancel the running sync, when the plugin is unloaded.
+     */
+    unload() {
+        this.scheduler.stop();
+        this.peerMonitor.stop();
+
+        // A running sync releases its locks instead of leaving them behind
+        this.abortController?.abort(new DOMException("The plugin was unloaded", "AbortError"));
+    }
+
+    /**
+     * Get the last known state of a peer.
+     *
+     * @param peer The peer to look up.
+     */
+    getPeerState(peer: Remote): PeerState {
+        return this.peerMonitor.getState(peer);
+    }
+
+    /**
+     * Handle a peer going online or offline.
+     * When a peer comes back after being offline, its pending changes are sent and a catch-up sync is run.
+     */
+    private async onPeerStateChange(peer: Remote, state: PeerState, previousState: PeerState) {
+        this.notifyStatusCallbacks();
+
+        if (state !== PeerState.Online || previousState !== PeerState.Offline) return;
+
+        consoleLog(`Peer ${peer.name} is back online, sending pending changes and running a catch-up sync.`);
+        await this.outbox.drain(peer.url);
+
+        if (this.getSyncStatus() !== SyncStatus.InProgress)
+            await this.syncHandler(false, [peer]);
     }
 
     /**
@@ -177,13 +366,67 @@ export class SyncManager {
      * @return The last local sync time in milliseconds, or undefined if not set.
      */
     async getLastLocalSyncTime(): Promise<number | undefined> {
-        return this.remotes[0].lastSyncTime;
+        return this.localRemote.lastSyncTime;
+    }
+
+    /**
+     * Get the last time the local server synced with a specific peer.
+     *
+     * @param peer The peer to check.
+     * @return The last sync time with the peer in seconds, or 0 if they never synced.
+     */
+    getLastSyncTimeWithPeer(peer: Remote): number {
+        if (!peer.instanceId) return 0;
+
+        return SyncHistory.getLastSyncWithRemote(this.localRemote, peer.instanceId);
+    }
+
+    /* Conflict management */
+
+    /**
+     * Get the unresolved conflicts of the local server.
+     * Conflicts whose document was deleted in the meantime are dropped from the registry.
+     *
+     * @return The list of unresolved conflicts.
+     */
+    async getConflicts(): Promise<ConflictEntry[]> {
+        const conflicts = await ConflictRegistry.loadConflicts(this.localRemote);
+
+        const existing = await Promise.all(conflicts.map(async conflict => {
+            const parentPath = conflict.conflictPath.replace(/\/[^/]+$/, "");
+            const dir = await readDir(parentPath, this.localRemote.url, SyncUtils.getHeaders(this.localRemote.key));
+            return dir?.some(file => file.name === conflict.conflictPath.split("/").pop()) ?? false;
+        }));
+
+        const unresolved = conflicts.filter((_, index) => existing[index]);
+        if (unresolved.length !== conflicts.length) {
+            consoleLog(`Dropping ${conflicts.length - unresolved.length} conflicts whose documents no longer exist.`);
+            await ConflictRegistry.saveConflicts(this.localRemote, unresolved);
+        }
+
+        return unresolved;
+    }
+
+    /**
+     * Resolve a conflict on the local server and on the peers.
+     *
+     * @param conflict The conflict to resolve.
+     * @param resolution Which version of the document to keep.
+     */
+    async resolveConflict(conflict: ConflictEntry, resolution: ConflictResolution) {
+        await ConflictHandler.resolveConflict(conflict, resolution, [this.localRemote.clone(), ...this.getPeers()]);
+
+        reloadFiletree(this.localRemote.url, SyncUtils.getHeaders(this.localRemote.key));
+
+        const protyle = this.loadedProtyles.get(conflict.originalPath);
+        if (protyle && resolution === ConflictResolution.KeepTheirs)
+            await protyle.reload(this.activeProtyle === protyle);
     }
 
     /* Sync history management */
 
     private async checkAndSetInstanceId(
-        remote: Remote = this.remotes[0]
+        remote: Remote
     ) {
         if (remote.instanceId) return;
 
@@ -198,7 +441,7 @@ export class SyncManager {
         }
     }
 
-    private async loadSyncHistory(remote: Remote = this.remotes[0]) {
+    private async loadSyncHistory(remote: Remote) {
         const syncHistory = await SyncHistory.loadSyncHistory(remote);
         remote.syncHistory = syncHistory;
     }
@@ -234,6 +477,10 @@ export class SyncManager {
      * @param protyle The Protyle instance to set as active, or null to clear it.
      */
     setActiveProtyle(protyle: Protyle | null) {
+        // Protyles reloaded by a sync are not user activity
+        if (protyle !== this.activeProtyle && this.getSyncStatus() !== SyncStatus.InProgress)
+            this.scheduler.notifyActivity();
+
         this.activeProtyle = protyle;
     }
 
@@ -249,29 +496,74 @@ export class SyncManager {
     /* Lock management */
 
     /**
-     * Acquire a lock for the specified remote.
+     * Acquire a lock for the specified remote, then renew its lease until it is released.
      * This is used to prevent concurrent sync operations on the same remote.
      *
      * @param remote The remote to acquire the lock for.
+     * @param startedAt The start time of the sync in milliseconds.
+     * @throws SyncLockError if another sync holds the lock.
      */
-    private async acquireLock(remote: Remote): Promise<void> {
-        const lockParent = "data/.siyuan/sync";
-        const resDir = await readDir(lockParent, remote.url, SyncUtils.getHeaders(remote.key), 5000);
-        const lockFileInfo = resDir?.find(file => file.name === "lock");
-        const now = Date.now();
+    private async acquireLock(remote: Remote, startedAt: number): Promise<void> {
+        const lock = await SyncLock.read(remote);
+
+        if (lock && SyncLock.isExpired(lock, remote)) {
+            consoleLog(`Ignoring the expired sync lock of ${remote.name}, held by ${SyncLock.getHolderName(lock, "an unknown device")}`);
+        } else if (lock) {
+            const message = this.plugin.i18n.syncLockAlreadyExists
+                .replace("{{remoteName}}", remote.name)
+                .replace("{{holder}}", SyncLock.getHolderName(lock, this.plugin.i18n.unknownDevice))
+                .replace("{{startedAt}}", new Date(lock.startedAt).toLocaleString())
+                .replace("{{expiresAt}}", new Date(lock.expiresAt).toLocaleString());
+            throw new SyncLockError(message, remote, lock);
+        }
 
-        if (lockFileInfo) {
-            const lockAge = now - (lockFileInfo.updated * 1000);
-            const fiveMinutesInMs = 5 * 60 * 1000;
+        const holder = {
+            instanceId: this.localRemote.instanceId || "",
+            nickname: window.siyuan?.config?.system?.name || ""
+        };
+        await SyncLock.write(remote, holder, startedAt);
+
+        const renewal = {
+            timer: setInterval(() => {
+                if (renewal.pending || renewal.lost) return;
+
+                renewal.pending = this.renewLock(remote, holder, startedAt, renewal)
+                    .catch(error => consoleWarn(`Failed to renew the sync lock of ${remote.name}:`, error))
+                    .finally(() => { renewal.pending = null; });
+            }, SyncLock.RENEW_INTERVAL),
+            pending: null as Promise<void> | null,
+            lost: false
+        };
+        this.lockRenewals.set(remote.url, renewal);
+    }
 
-            if (lockAge > fiveMinutesInMs)
-                consoleLog(`Lock file is ${Math.round(lockAge / 1000)} seconds old, ignoring stale lock for ${remote.name}`);
-            else
-                throw new Error(this.plugin.i18n.syncLockAlreadyExists.replace("{{remoteName}}", remote.name));
+    /**
+     * Renew the lock of a remote, after checking that this sync still holds it.
+     * Another device may have taken the lock after a force unlock or once the lease expired, the sync is then cancelled.
+     *
+     * @param remote The remote to renew the lock of.
+     * @param holder The device running the sync.
+     * @param startedAt The start time of the sync in milliseconds.
+     * @param renewal The renewal of the lock, marked as lost so that the lock is neither renewed nor removed anymore.
+     */
+    private async renewLock(remote: Remote, holder: Pick<LockInfo, "instanceId" | "nickname">, startedAt: number, renewal: { lost: boolean }) {
+        const lock = await SyncLock.read(remote);
+
+        if (!SyncLock.isHeldBy(lock, holder, startedAt)) {
+            renewal.lost = true;
+
+            const holderName = lock ? SyncLock.getHolderName(lock, this.plugin.i18n.unknownDevice) : this.plugin.i18n.unknownDevice;
+            const message = this.plugin.i18n.syncLockLost
+                .replace("{{remoteName}}", remote.name)
+                .replace("{{holder}}", holderName);
+
+            consoleError(`Lost the sync lock of ${remote.name}, cancelling the sync.`);
+            showMessage(message, 10000, "error");
+            this.abortController?.abort(new DOMException(message, "AbortError"));
+            return;
         }
 
-        const file = new File([], "lock", { type: "text/plain", lastModified: now });
-        await SyncUtils.putFile(`${lockParent}/lock`, file, remote.url, remote.key, now);
+        await SyncLock.write(remote, holder, startedAt);
     }
 
     /**
@@ -280,9 +572,17 @@ export class SyncManager {
      * @param remote The remote to release the lock for.
      */
     private async releaseLock(remote: Remote): Promise<void> {
-        const path = `${SYNC_CONFIG_DIR}${LOCK_FILE}`;
+        const renewal = this.lockRenewals.get(remote.url);
+        clearInterval(renewal?.timer);
+        this.lockRenewals.delete(remote.url);
+
         try {
-            await SyncUtils.deleteFile(path, remote);
+            // A renewal still in progress would write the lock back after its removal
+            await renewal?.pending;
+
+            // The lock taken by another sync is left to it
+            if (renewal?.lost) return;
+            await SyncLock.remove(remote);
         } catch (error) {
             this.dismissMainSyncNotification();
 
@@ -291,19 +591,55 @@ export class SyncManager {
         }
     }
 
+    /**
+     * Remove the lock of a remote held by another sync, after the user confirmed that no sync is running there.
+     *
+     * @param error The error of the sync which found the lock.
+     */
+    private offerForceUnlock(error: SyncLockError) {
+        confirm(
+            this.plugin.i18n.forceUnlock,
+            this.plugin.i18n.forceUnlockConfirm
+                .replace("{{remoteName}}", error.remote.name)
+                .replace("{{holder}}", SyncLock.getHolderName(error.holder, this.plugin.i18n.unknownDevice)),
+            async () => {
+                try {
+                    await SyncLock.remove(error.remote);
+                    consoleWarn(`Force unlocked ${error.remote.name}, the lock was held by ${SyncLock.getHolderName(error.holder, "an unknown device")}`);
+                    showMessage(this.plugin.i18n.forceUnlockDone.replace("{{remoteName}}", error.remote.name), 4000);
+                } catch (unlockError) {
+                    consoleError(`Failed to force unlock ${error.remote.name}:`, unlockError);
+                    showMessage(this.plugin.i18n.forceUnlockFailed.replace("{{error}}", unlockError.message), 6000, "error");
+                }
+            }
+        );
+    }
+
     /**
      * Acquire locks for both local and remote remotes.
      * This ensures that both sides are locked before starting the sync process.
-     * @param remotes The remotes to acquire locks for, defaults to the current remotes.
+     * @param remotes The remotes to acquire locks for.
      */
-    private async acquireAllLocks(remotes: [Remote, Remote] = this.copyRemotes(this.remotes)): Promise<void> {
+    private async acquireAllLocks(remotes: [Remote, Remote]): Promise<void> {
         SyncUtils.checkRemotes(remotes);
+        const startedAt = Date.now();
+
+        // The lock of the peer is written through the encrypted channel, the sync stops here when there is none
+        if (this.isEncryptionEnabled()) {
+            await this.ensureHandshake(remotes[1]);
+            await this.requireEncryptedChannel(remotes[1]);
+        }
 
         // Acquire the remote lock first
-        await this.acquireLock(remotes[1]);
+        await this.acquireLock(remotes[1], startedAt);
 
-        // Acquire the local lock
-        await this.acquireLock(remotes[0]);
+        // Acquire the local lock, giving the remote one back if the local side is busy
+        try {
+            await this.acquireLock(remotes[0], startedAt);
+        } catch (error) {
+            await this.releaseLock(remotes[1]);
+            throw error;
+        }
 
         consoleLog("Acquired sync locks.");
     }
@@ -311,9 +647,9 @@ export class SyncManager {
     /**
      * Release locks for both local and remote remotes.
      * This is called after the sync process is complete to ensure both sides are unlocked.
-     * @param remotes The remotes to release locks for, defaults to the current remotes.
+     * @param remotes The remotes to release locks for.
      */
-    private async releaseAllLocks(remotes: [Remote, Remote] = this.copyRemotes(this.remotes)): Promise<void> {
+    private async releaseAllLocks(remotes: [Remote, Remote]): Promise<void> {
         SyncUtils.checkRemotes(remotes);
 
         await Promise.allSettled(remotes.map(remote => this.releaseLock(remote)));
@@ -338,6 +674,11 @@ export class SyncManager {
         if (!blockingUrls.includes(url))
             fetchPromise = this.originalFetch(input, init);
 
+        // Deletions are recorded also when requested by a peer through the WebSocket
+        const deletedPaths = Tombstones.getDeletedPaths(url, init?.body);
+        if (deletedPaths.length > 0)
+            Tombstones.recordDeletions(this.localRemote, deletedPaths);
+
         // Check if this request is initiated via WebSocket and should be excluded
         let requestId: string | undefined;
         if (init?.headers) {
@@ -377,24 +718,19 @@ export class SyncManager {
                 if (this.plugin.settingsManager.getPref("instantSync") !== true)
                     break;
 
-                const useWebSocket = await this.fetchAndSetRemoteAppId(this.remotes) && await this.shouldUseWebSocket();
-
-                if (useWebSocket) {
-                    const appId = this.remotes[1].appId;
-                    consoleLog(`Sending ${url} request via WebSocket with app ID: ${appId}`);
+                const requestBody = JSON.parse(init.body as string);
+                if (this.getSyncRules().isNotebookExcluded(requestBody?.notebook || requestBody?.toNotebook)) {
+                    consoleLog(`Skipping ${url} request for a notebook excluded from sync.`);
+                    break;
+                }
 
-                    const wsPayload = new Payload(url, {
-                        requestData: init.body,
-                        appId: appId
+                for (const peer of this.peers) {
+                    this.outbox.enqueue({
+                        peerUrl: peer.url,
+                        type: OutboxEntryType.ApiRequest,
+                        url,
+                        body: init.body as string
                     });
-                    await this.transmitWebSocketMessage(wsPayload.toString(), this.inputWebSocketManagers[1]);
-                } else {
-                    consoleLog(`Sending ${url} request via regular fetch.`);
-                    await requestWithHeaders(
-                        `${this.remotes[1].url}${url}`,
-                        JSON.parse(init.body as string),
-                        SyncUtils.getHeaders(this.remotes[1].key)
-                    );
                 }
 
                 break;
@@ -405,26 +741,18 @@ export class SyncManager {
 
                 const createDocPayload = JSON.parse(init.body as string) as CreateDocRequest;
 
-                const fileName = `${createDocPayload.path.replace(/.*\//, "")}`;
                 const fullPath = `data/${createDocPayload.notebook}${createDocPayload.path}`;
-                const parent = fullPath.replace(fileName, "");
+
+                if (this.getSyncRules().isExcluded(fullPath)) {
+                    consoleLog(`Skipping creation of ${fullPath} on remote server, excluded from sync.`);
+                    break;
+                }
 
                 consoleLog(`Creating new doc on remote server: ${fullPath}`);
                 await fetchPromise;
 
-                const [fileBlob, resDir] = await Promise.all([
-                    getFileBlob(fullPath),
-                    readDir(parent)
-                ]);
-
-                const fileRes = resDir.find(file => file.name === fileName);
-                const timestamp = fileRes ? fileRes.updated * 1000 : Date.now();
-                const file = new File([fileBlob], fileName, { lastModified: timestamp });
-
-                await SyncUtils.putFile(
-                    fullPath, file, this.remotes[1].url, this.remotes[1].key, timestamp
-                );
-                await reloadFiletree(this.remotes[1].url, SyncUtils.getHeaders(this.remotes[1].key));
+                for (const peer of this.peers)
+                    this.outbox.enqueue({ peerUrl: peer.url, type: OutboxEntryType.PushFile, path: fullPath });
                 break;
 
             case "/api/notebook/createNotebook":
@@ -436,24 +764,14 @@ export class SyncManager {
 
                 consoleLog(`Creating new notebook on remote server: ${notebookId}`);
 
-                const remotesWithFile: [Remote, Remote] = [
-                    this.remotes[0].withFile(new StorageItem(`data/${notebookId}`)),
-                    this.remotes[1].withFile(new StorageItem(`data/${notebookId}`))
-                ];
-
-                await this.syncDirectory(
-                    remotesWithFile,
-                    [],
-                    {
-                        onlyIfMissing: true,
-                        avoidDeletions: true
-                    }
-                );
-                await reloadFiletree(this.remotes[1].url, SyncUtils.getHeaders(this.remotes[1].key));
+                for (const peer of this.peers)
+                    this.outbox.enqueue({ peerUrl: peer.url, type: OutboxEntryType.PushDirectory, path: `data/${notebookId}` });
                 break;
 
             case "/api/transactions":
             case "/api/attr/setBlockAttrs":
+                this.scheduler.notifyActivity();
+
                 const protyle = this.activeProtyle;
                 await this.handleTransactionsCall(protyle.protyle);
         }
@@ -469,11 +787,17 @@ export class SyncManager {
     async handleTransactionsCall(
         protyle: IProtyle
     ) {
-        if (this.plugin.settingsManager.getPref("instantSync") !== true) return;
+        const key = `data/${protyle.notebookId}${protyle.path}`;
 
-        const debounceTime = this.plugin.settingsManager.getPref("transactionsDebounceTime") || 5000;
+        if (this.plugin.settingsManager.getPref("instantSync") !== true) {
+            // The document waits for the next idle sync, which must not see the local edits as a conflict
+            if (Number(this.plugin.settingsManager.getPref("idleSyncDelay")) > 0 && !this.pendingFileChanges.has(key))
+                this.pendingFileChanges.set(key, 0);
 
-        const key = `data/${protyle.notebookId}${protyle.path}`;
+            return;
+        }
+
+        const debounceTime = this.plugin.settingsManager.getPref("transactionsDebounceTime") || 5000;
 
         const timeout = this.pendingFileChanges.get(key);
         if (timeout)
@@ -497,15 +821,100 @@ export class SyncManager {
 
         const path = `data/${protyle.notebookId}${protyle.path}`;
 
-        const operation = await this.getSyncFileOperation(
-            path,
-            { avoidDeletions: true }
-        );
+        if (this.getSyncRules().isExcluded(path)) {
+            consoleLog(`Skipping instant sync of ${path}, excluded from sync.`);
+            this.pendingFileChanges.delete(path);
+            return;
+        }
 
-        await this.executeSyncOperation(operation);
+        for (const peer of this.peers)
+            this.outbox.enqueue({ peerUrl: peer.url, type: OutboxEntryType.PushFile, path });
 
         this.pendingFileChanges.delete(path);
-        await this.sendReloadProtylesMessage([path]);
+    }
+
+    /**
+     * Get the number of instant sync changes waiting to be sent to the peers.
+     */
+    getPendingChangesCount(): number {
+        return this.outbox.getPendingCount();
+    }
+
+    /**
+     * Send a change from the outbox to a peer.
+     * Only an unreachable peer or a sync in progress make the change wait, a change refused by the peer is dropped.
+     *
+     * @param entry The change to send.
+     * @param peer The peer to send the change to.
+     */
+    private async sendOutboxEntry(entry: OutboxEntry, peer: Remote) {
+        if (this.getSyncStatus() === SyncStatus.InProgress)
+            throw new Error("A sync is in progress");
+
+        if (!await SyncUtils.isReachable(peer))
+            throw new Error(`${peer.name} is not reachable`);
+
+        switch (entry.type) {
+            case OutboxEntryType.ApiRequest:
+                const useWebSocket = await this.fetchAndSetRemoteAppId([this.localRemote, peer]) && await this.shouldUseWebSocket(peer);
+
+                if (useWebSocket) {
+                    const appId = peer.appId;
+                    consoleLog(`Sending ${entry.url} request to ${peer.name} via WebSocket with app ID: ${appId}`);
+
+                    // The ID of the entry makes the retries of an unacknowledged request run once on the peer
+                    await this.requestViaWebSocket(entry.url, {
+                        requestData: entry.body,
+                        appId: appId
+                    }, peer, { requestId: entry.id, noResponse: !this.hasCapability(peer, "acks") });
+                } else {
+                    // The regular fetch is not encrypted, the change waits for the encrypted channel
+                    if (this.isEncryptionEnabled())
+                        throw new Error(this.plugin.i18n.encryptionUnavailable.replace("{{remoteName}}", peer.name));
+
+                    consoleLog(`Sending ${entry.url} request to ${peer.name} via regular fetch.`);
+                    await requestWithHeaders(
+                        `${peer.url}${entry.url}`,
+                        JSON.parse(entry.body),
+                        SyncUtils.getHeaders(peer.key)
+                    );
+                }
+                break;
+
+            case OutboxEntryType.PushFile:
+                const operation = await this.getSyncFileOperation(
+                    entry.path,
+                    { avoidDeletions: true },
+                    [this.localRemote, peer]
+                );
+
+                if (operation) {
+                    const created = !operation.destination?.file?.item;
+                    await this.executeSyncOperation(operation);
+
+                    if (created) await reloadFiletree(peer.url, SyncUtils.getHeaders(peer.key));
+                }
+
+                await this.sendReloadProtylesMessage([entry.path], peer);
+                break;
+
+            case OutboxEntryType.PushDirectory:
+                const remotesWithFile: [Remote, Remote] = [
+                    this.localRemote.withFile(new StorageItem(entry.path)),
+                    peer.withFile(new StorageItem(entry.path))
+                ];
+
+                await this.syncDirectory(
+                    remotesWithFile,
+                    [],
+                    {
+                        onlyIfMissing: true,
+                        avoidDeletions: true
+                    }
+                );
+                await reloadFiletree(peer.url, SyncUtils.getHeaders(peer.key));
+                break;
+        }
     }
 
     /**
@@ -526,10 +935,12 @@ export class SyncManager {
      * Function to choose whether to use WebSocket or not.
      * This function checks the plugin settings to determine if WebSocket should be used for synchronization.
      * It also checks if the other remote's WebSocket is being listened to.
+     *
+     * @param remote The peer to communicate with.
      */
-    private async shouldUseWebSocket(): Promise<boolean> {
+    private async shouldUseWebSocket(remote: Remote): Promise<boolean> {
         const useWebSocket = this.plugin.settingsManager.getPref("useExperimentalWebSocket");
-        const isRemoteListening = await this.inputWebSocketManagers[1]?.isListening();
+        const isRemoteListening = await this.inputWebSocketManagers.get(remote.url)?.isListening();
 
         return useWebSocket && isRemoteListening;
     }
@@ -539,29 +950,27 @@ export class SyncManager {
      *
      * This function initializes WebSocket connections for both input and output channels.
      * It creates two WebSocketManager instances for each channel, one for the local remote and
-     * one for the remote remote.
+     * one for each of the peers.
      * We set up callbacks for handling input messages on the local input WebSocket and
-     * output messages on the remote output WebSocket.
+     * output messages on the peers output WebSockets.
      */
     async setupWebSockets() {
         if (!this.plugin.settingsManager.getPref("useExperimentalWebSocket"))
             return;
 
-        const remotes = this.copyRemotes(this.remotes);
-
-        this.inputWebSocketManagers[0] = new WebSocketManager("better-sync-input", remotes[0]);
-        this.outputWebSocketManagers[0] = new WebSocketManager("better-sync-output", remotes[0]);
-        this.inputWebSocketManagers[1] = new WebSocketManager("better-sync-input", remotes[1]);
-        this.outputWebSocketManagers[1] = new WebSocketManager("better-sync-output", remotes[1]);
+        for (const remote of [this.localRemote, ...this.peers]) {
+            this.inputWebSocketManagers.set(remote.url, new WebSocketManager("better-sync-input", remote.clone()));
+            this.outputWebSocketManagers.set(remote.url, new WebSocketManager("better-sync-output", remote.clone()));
+        }
 
         await Promise.allSettled([
             this.connectWebSocket(
-                this.inputWebSocketManagers[0],
+                this.inputWebSocketManagers.get(this.localRemote.url),
                 this.webSocketInputCallback.bind(this),
                 this.webSocketCloseRetryCallback.bind(this),
             ),
             this.connectWebSocket(
-                this.outputWebSocketManagers[0],
+                this.outputWebSocketManagers.get(this.localRemote.url),
                 null,
                 this.webSocketCloseRetryCallback.bind(this)
             )
@@ -572,78 +981,87 @@ export class SyncManager {
      * Cleanup WebSocket connections.
      */
     cleanupWebSockets() {
-        const webSocketManagers = [...this.inputWebSocketManagers, ...this.outputWebSocketManagers];
+        const webSocketManagers = [...this.inputWebSocketManagers.values(), ...this.outputWebSocketManagers.values()];
 
         for (const manager of webSocketManagers) {
             if (manager) manager.closeWebSocket();
         }
-    }
 
-    /**
-     * Choose the remote's appId to use for WebSocket communication.
-     *
-     * This function checks if the remote appId has been received.
-     */
-    private chooseRemoteAppId(): string {
-        const firstAppId = Array.from(this.receivedAppIds).reverse().pop();
-        return firstAppId || "unknown-app-id";
+        this.inputWebSocketManagers.clear();
+        this.outputWebSocketManagers.clear();
     }
 
     /**
      * Set remote appId
      *
      * @param appId The appId to set for the remote.
-     * @param remote The remote information to set the appId for, defaults to the second remote.
+     * @param remote The remote information to set the appId for.
      */
-    private setRemoteAppId(appId: string, remote: Remote = this.remotes[1]) {
+    private setRemoteAppId(appId: string, remote: Remote) {
         remote.appId = appId;
     }
 
     /**
      * Checks if the remote appId is set.
      *
-     * @param remote The remote information to check, defaults to the second remote.
+     * @param remote The remote information to check.
      * @returns True if the remote appId is set and not "unknown-app-id", false otherwise.
      */
-    private isRemoteAppIdSet(remote: Remote = this.remotes[1]): boolean {
+    private isRemoteAppIdSet(remote: Remote): boolean {
         return !!remote.appId && remote.appId !== "unknown-app-id";
     }
 
     /**
      * Fetch and set the remote appId.
      *
-     * @param remotes The list of remote connections.
+     * @param remotes The pair of remote connections, the appId is set on the second one.
      * @returns A Promise that resolves to a boolean indicating whether the appId was found successfully.
      */
-    public async fetchAndSetRemoteAppId(remotes: Remote[] = this.remotes): Promise<boolean> {
-        if (!(await this.shouldUseWebSocket())) return false;
+    public async fetchAndSetRemoteAppId(remotes: [Remote, Remote]): Promise<boolean> {
+        if (!(await this.shouldUseWebSocket(remotes[1]))) return false;
 
-        await Promise.all([
-            this.connectRemoteOutputWebSocket(),
-            this.transmitWebSocketMessage(
-                new Payload("get-app-id", {}).toString(),
-                this.inputWebSocketManagers[1]
-            )
-        ]);
+        let response: any;
+        try {
+            response = await this.rpc.request("get-app-id", {
+                compression: Compression.getAcceptedFormats(this.plugin.settingsManager.getPref("compression")),
+                protocol: Protocol.getLocalInfo(),
+                deviceName: this.getDeviceName()
+            }, remotes[1]);
+        } catch (error) {
+            consoleWarn(`Failed to get the app ID of ${remotes[1].name}:`, error);
+            this.setRemoteAppId("unknown-app-id", remotes[1]);
+            return false;
+        }
 
-        for (let i = 0; i < 500; i++) {
-            if (this.receivedAppIds.size > 0) {
-                if (this.receivedAppIds.has(remotes[1].appId)) {
-                    consoleLog(`Remote app ID already set: ${remotes[1].appId}`);
-                    return true;
-                }
+        const { appId, compression, protocol } = response;
+        consoleLog(`Received app ID from remote ${remotes[1].name}: ${appId}`);
 
-                this.setRemoteAppId(this.chooseRemoteAppId(), remotes[1]);
-                consoleLog(`Remote app ID set to: ${remotes[1].appId}`);
-                this.receivedAppIds.clear();
-                return true;
-            }
+        const protocolInfo = Protocol.fromHandshake(protocol);
+        this.peerProtocols.set(remotes[1].url, protocolInfo);
+        this.checkPeerProtocol(protocolInfo, remotes[1].name);
+
+        if (!Protocol.isCompatible(protocolInfo)) {
+            consoleWarn(`The protocol of ${remotes[1].name} is not compatible, WebSocket is not used with it.`);
+            this.setRemoteAppId("unknown-app-id", remotes[1]);
+            return false;
+        }
 
-            await new Promise(resolve => setTimeout(resolve, 5));
+        if (Compression.isSupported(compression)) {
+            if (this.compressionFormats.get(remotes[1].url) !== compression)
+                consoleLog(`Compressing the payloads sent to ${remotes[1].name} with ${compression}.`);
+            this.compressionFormats.set(remotes[1].url, compression);
+        } else {
+            this.compressionFormats.delete(remotes[1].url);
+        }
+
+        if (remotes[1].appId === appId) {
+            consoleLog(`Remote app ID already set: ${remotes[1].appId}`);
+            return true;
         }
 
-        consoleWarn("Timeout waiting for remote app ID.");
-        return false;
+        this.setRemoteAppId(appId || "unknown-app-id", remotes[1]);
+        consoleLog(`Remote app ID set to: ${remotes[1].appId}`);
+        return true;
     }
 
     /**
@@ -653,17 +1071,37 @@ export class SyncManager {
      * @param data The data received from the WebSocket.
      */
     private async webSocketInputCallback(data: any) {
-        const payload = Payload.fromString(data);
+        const payload = await this.decodePayload(data);
         if (!payload) {
             consoleWarn("Received invalid WebSocket input message:", data);
             return;
         }
 
+        const error = Protocol.validate(payload, "input");
+        if (error) return this.rejectPayload(payload, error);
+
+        // Requests meant for another client of the same device are left to it, without an answer
+        const { appId } = payload.data;
+        if (appId && appId !== this.plugin.app.appId)
+            return consoleWarn(`Ignoring ${payload.type} request for app ID ${appId}, current app ID is ${this.plugin.app.appId}`);
+
+        await this.rpc.handleRequest(payload, () => this.handleWebSocketRequest(payload));
+    }
+
+    /**
+     * Handle a request received on the input WebSocket.
+     *
+     * @param payload The request.
+     * @returns The response to send, or null if the request is only acknowledged.
+     */
+    private async handleWebSocketRequest(payload: Payload): Promise<Payload | null> {
+        const { requestId } = payload.data;
+
         switch (true) {
             case payload.type === "reload-protyles":
                 consoleLog("Reloading all Protyles due to WebSocket message.");
                 await this.reloadProtyles();
-                break;
+                return null;
 
             case payload.type === "reload-protyles-if-open": {
                 const { paths } = payload.data;
@@ -678,55 +1116,82 @@ export class SyncManager {
                         consoleWarn(`No Protyle found for path: ${path}`);
                     }
                 }
-                break;
+                return null;
             }
 
             case payload.type === "get-dir-files": {
-                const { path, excludedItems, requestId, appId } = payload.data;
-
-                if (appId && appId !== this.plugin.app.appId)
-                    return consoleWarn(`Ignoring get-dir-files request for app ID ${appId}, current app ID is ${this.plugin.app.appId}`);
+                const { path, excludedItems, syncRules, appId } = payload.data;
 
                 consoleLog(`Received request for directory files: ${path} with app ID ${appId}`);
-                const storageItem = await SyncUtils.getDirFilesRecursively(path, Remote.default(), true, excludedItems);
-                const responsePayload = new Payload("dir-files-response", { item: storageItem, requestId });
-                await this.transmitWebSocketMessage(responsePayload.toString(), this.outputWebSocketManagers[0]);
-                break;
+
+                // Older versions send no sync rules, nothing is excluded by them
+                const rules = syncRules ? SyncRules.fromObject(syncRules) : new SyncRules();
+                const storageItem = await SyncUtils.getDirFilesRecursively(path, Remote.default(), true, excludedItems, rules);
+                return new Payload("dir-files-response", { item: storageItem, requestId });
             }
 
-            case payload.type.startsWith("/api/"): {
-                consoleLog(`Processing api request via WebSocket: ${payload.type}`);
+            case ["get-block-signatures", "get-delta", "apply-delta"].includes(payload.type): {
+                const response = await this.handleDeltaRequest(payload);
+                return new Payload("delta-response", { ...response, requestId });
+            }
 
-                const { appId, requestData } = payload.data;
+            case payload.type === "assemble-transfer": {
+                const result = await ChunkedTransfer.assemble(payload.data.dir, this.localRemote, await this.getEncryptionKey());
+                return new Payload("transfer-response", { ...result, requestId });
+            }
 
-                if (appId && appId !== this.plugin.app.appId) {
-                    consoleWarn(`Ignoring request for app ID ${appId}, current app ID is ${this.plugin.app.appId}`);
-                    return;
-                }
+            case payload.type === "get-file-hash": {
+                const blob = await getFileBlob(payload.data.path, this.localRemote.url, SyncUtils.getHeaders(this.localRemote.key), HashManifest.HASH_TIMEOUT);
+                const hash = blob ? await HashManifest.computeHash(blob) : undefined;
+                return new Payload("file-hash-response", { requestId, hash });
+            }
+
+            case payload.type === "copy-files": {
+                const copied = await SyncJournal.copyFiles(payload.data.copies, this.localRemote);
+                return new Payload("copy-response", { requestId, copied });
+            }
+
+            case payload.type === "stage-file": {
+                // Only encrypted requests are read when encryption is enabled, the file is staged for the same key
+                const key = await this.getEncryptionKey();
+                if (!key) throw new Error("Encryption is not enabled");
+
+                const compression = Compression.isSupported(payload.data.compression) ? payload.data.compression : null;
+                const dir = await ChunkedTransfer.stage(payload.data.path, this.localRemote, compression, key);
+                return new Payload("stage-response", { requestId, dir });
+            }
+
+            case payload.type.startsWith("/api/"): {
+                consoleLog(`Processing api request via WebSocket: ${payload.type}`);
 
-                const requestId = crypto.randomUUID();
-                this.webSocketRequestIds.add(requestId);
+                const webSocketRequestId = crypto.randomUUID();
+                this.webSocketRequestIds.add(webSocketRequestId);
 
                 await requestWithHeaders(
                     payload.type,
-                    JSON.parse(requestData),
-                    { "websocket-request-id": requestId }
+                    JSON.parse(payload.data.requestData),
+                    { "websocket-request-id": webSocketRequestId }
                 );
-
-                break;
+                return null;
             }
 
             case payload.type === "get-app-id": {
-                const appId = this.plugin.app.appId || "unknown-app-id";
-                const responsePayload = new Payload("app-id-response", { appId });
-                await this.transmitWebSocketMessage(responsePayload.toString(), this.outputWebSocketManagers[0]);
-                break;
+                // Older versions do not offer any format and keep receiving uncompressed payloads
+                const compression = Compression.negotiate(payload.data.compression, this.plugin.settingsManager.getPref("compression"));
+                this.checkPeerProtocol(Protocol.fromHandshake(payload.data.protocol), payload.data.deviceName || this.plugin.i18n.unknownDevice);
+
+                // The answer is not compressed, the peer does not know the format yet
+                return new Payload("app-id-response", {
+                    appId: this.plugin.app.appId || "unknown-app-id",
+                    compression,
+                    protocol: Protocol.getLocalInfo(),
+                    deviceName: this.getDeviceName(),
+                    requestId
+                });
             }
-
-            default:
-                consoleWarn("Unknown WebSocket message:", payload);
-                break;
         }
+
+        return null;
     }
 
     /**
@@ -762,36 +1227,157 @@ export class SyncManager {
      * This is used to handle responses from the remote server.
      *
      * @param data The data received from the WebSocket.
+     * @param remote The peer the message has been received from.
      */
-    private async webSocketOutputCallback(data: any) {
-        const payload = Payload.fromString(data);
+    private async webSocketOutputCallback(data: any, remote: Remote) {
+        const payload = await this.decodePayload(data);
         if (!payload) {
             consoleWarn("Received invalid WebSocket output message:", data);
             return;
         }
 
-        switch (payload.type) {
-            case "dir-files-response": {
-                const { item, requestId } = payload.data;
-                if (this.pendingDirRequests.has(requestId)) {
-                    const storageItem = StorageItem.fromObject(item);
-                    this.pendingDirRequests.get(requestId)(storageItem);
-                    this.pendingDirRequests.delete(requestId);
-                }
-                break;
-            }
+        const error = Protocol.validate(payload, "output");
+        if (error) return this.rejectPayload(payload, error);
 
-            case "app-id-response": {
-                const { appId } = payload.data;
-                this.receivedAppIds.add(appId);
-                consoleLog(`Received app ID from remote: ${appId}`);
-                break;
-            }
+        this.rpc.handleAnswer(payload, remote);
+    }
 
-            default:
-                consoleWarn("Unknown WebSocket message:", payload);
-                break;
+    /**
+     * Get the protocol of a peer, peers which did not send any use the first version.
+     *
+     * @param remote The peer.
+     */
+    private getPeerProtocol(remote: Remote): ProtocolInfo {
+        return this.peerProtocols.get(remote.url) ?? Protocol.fromHandshake(null);
+    }
+
+    /**
+     * Check whether a peer supports an optional feature, before sending it the messages of the feature.
+     *
+     * @param remote The peer.
+     * @param capability The feature.
+     */
+    private hasCapability(remote: Remote, capability: Capability): boolean {
+        return this.getPeerProtocol(remote).capabilities.includes(capability);
+    }
+
+    /**
+     * Tell the user to upgrade the plugin when a peer uses another protocol version.
+     * The device with the older version is named, it may be this one.
+     *
+     * @param info The protocol of the peer.
+     * @param deviceName The name of the peer.
+     */
+    private checkPeerProtocol(info: ProtocolInfo, deviceName: string) {
+        if (info.version === Protocol.VERSION) return;
+
+        const outdatedDevice = info.version < Protocol.VERSION ? deviceName : this.getDeviceName();
+        this.notifyUpgradeRequired(outdatedDevice, Protocol.isCompatible(info));
+    }
+
+    /**
+     * Show which device must upgrade the plugin, once per device and session.
+     *
+     * @param deviceName The device with the older version.
+     * @param compatible Whether the devices can still talk to each other, with fewer features.
+     */
+    private notifyUpgradeRequired(deviceName: string, compatible: boolean) {
+        const key = `${deviceName}:${compatible}`;
+        if (this.upgradeNotices.has(key)) return;
+        this.upgradeNotices.add(key);
+
+        const message = (compatible ? this.plugin.i18n.protocolOutdated : this.plugin.i18n.protocolIncompatible)
+            .replace("{{device}}", deviceName);
+
+        consoleWarn(message);
+        showMessage(message, 10000, compatible ? "info" : "error");
+    }
+
+    /**
+     * Ignore a message which does not match its definition.
+     * Messages from newer versions are expected to be unknown, the user is told to upgrade this device.
+     *
+     * @param payload The received message.
+     * @param error The reason why the message is invalid.
+     */
+    private rejectPayload(payload: Payload, error: string) {
+        if (payload.version > Protocol.VERSION) {
+            consoleWarn(`Ignoring a message of protocol version ${payload.version}, ${error}.`);
+            this.notifyUpgradeRequired(this.getDeviceName(), true);
+            return;
         }
+
+        consoleWarn(`Ignoring invalid WebSocket message, ${error}:`, payload);
+    }
+
+    /**
+     * Decode a received WebSocket message, decrypting it when encryption is enabled.
+     *
+     * @param data The data received from the WebSocket.
+     * @returns The message, or null if it cannot be read.
+     */
+    private async decodePayload(data: any): Promise<Payload | null> {
+        try {
+            return await Payload.decode(data, await this.getEncryptionKey());
+        } catch (error) {
+            consoleError("Failed to read WebSocket message:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Check whether end-to-end encryption is enabled, by setting a passphrase.
+     */
+    private isEncryptionEnabled(): boolean {
+        return !!this.plugin.settingsManager.getPref("encryptionPassphrase");
+    }
+
+    /**
+     * Get the key of the encryption passphrase.
+     *
+     * @returns The key, or null if encryption is disabled.
+     * @throws If encryption is enabled but not available on this device.
+     */
+    private async getEncryptionKey(): Promise<CryptoKey | null> {
+        if (!this.isEncryptionEnabled()) return null;
+        if (!Encryption.isSupported()) throw new Error(this.plugin.i18n.encryptionUnsupported);
+
+        return Encryption.getKey(this.plugin.settingsManager.getPref("encryptionPassphrase"));
+    }
+
+    /**
+     * Check that files can be exchanged encrypted with a peer, through the plugin of the peer.
+     * The peer only answers encrypted requests when it has the same passphrase.
+     *
+     * @param remote The peer.
+     * @throws If the peer cannot be reached through an encrypted WebSocket connection.
+     */
+    private async requireEncryptedChannel(remote: Remote) {
+        if (!(await this.shouldUseWebSocket(remote) && this.isRemoteAppIdSet(remote)) || !this.hasCapability(remote, "encryption"))
+            throw new Error(this.plugin.i18n.encryptionUnavailable.replace("{{remoteName}}", remote.name));
+    }
+
+    /**
+     * Refuse to read or write the files of the peers through their file API while encryption is enabled,
+     * their contents would be sent in plaintext. Only the staged transfers are exchanged this way, as they are encrypted.
+     *
+     * @param path The path of the file.
+     * @param urlPrefix The URL of the remote, empty for the local device.
+     * @throws If the remote is a peer and encryption is enabled.
+     */
+    private checkFileContentRequest(path: string, urlPrefix: string) {
+        if (!urlPrefix || !this.isEncryptionEnabled()) return;
+        if (path.replace(/^\//, "").startsWith(SYNC_TRANSFERS_DIR)) return;
+
+        const remoteName = this.peers.find(peer => peer.url === urlPrefix)?.name ?? urlPrefix;
+        throw new Error(this.plugin.i18n.encryptionUnavailable.replace("{{remoteName}}", remoteName));
+    }
+
+    /**
+     * Get the name of this device, as shown to the peers.
+     */
+    private getDeviceName(): string {
+        return window.siyuan?.config?.system?.name || this.plugin.i18n.thisDevice;
     }
 
     /**
@@ -810,6 +1396,47 @@ export class SyncManager {
         await webSocketManager.sendMessage(message);
     }
 
+    /**
+     * Send a request to the input WebSocket of a peer, listening to its output WebSocket for the answer.
+     *
+     * @param message The request.
+     * @param remote The peer.
+     */
+    private async sendWebSocketRequest(message: string, remote: Remote) {
+        if (!this.outputWebSocketManagers.get(remote.url)?.isConnected())
+            await this.connectRemoteOutputWebSocket(remote);
+
+        await this.transmitWebSocketMessage(message, this.inputWebSocketManagers.get(remote.url));
+    }
+
+    /**
+     * Send a request to a peer and wait for its answer, compressed with the format negotiated with the peer.
+     *
+     * @param type The type of the request.
+     * @param data The data of the request.
+     * @param remote The peer.
+     * @param options The timeout and retries of the request, the settings are used by default.
+     * @returns The data of the response, or null if no response is expected.
+     */
+    private requestViaWebSocket(type: string, data: any, remote: Remote, options: RpcOptions = {}): Promise<any> {
+        const compression = this.getCompressionFormat(remote);
+
+        // Older versions would run a request sent again twice
+        const retries = this.hasCapability(remote, "acks") ? undefined : 0;
+
+        return this.rpc.request(type, { ...data, compression }, remote, { compression, retries, ...options });
+    }
+
+    /**
+     * Get the compression format negotiated with a peer.
+     *
+     * @param remote The peer.
+     * @returns The format, or null if the payloads sent to the peer are not compressed.
+     */
+    private getCompressionFormat(remote: Remote): CompressionFormat | null {
+        return this.compressionFormats.get(remote.url) ?? null;
+    }
+
     /**
      * Broadcast a message to all connected clients via the remote WebSocket.
      * This function is used to send messages to all clients connected to the remote server.
@@ -864,15 +1491,19 @@ export class SyncManager {
 
     /**
      * Connect to the remote output WebSocket.
+     *
+     * @param remote The peer to connect to.
      */
-    async connectRemoteOutputWebSocket() {
-        if (this.outputWebSocketManagers[1] && !this.outputWebSocketManagers[1].isConnected()) {
-            await this.outputWebSocketManagers[1].initWebSocket();
+    async connectRemoteOutputWebSocket(remote: Remote) {
+        const webSocketManager = this.outputWebSocketManagers.get(remote.url);
+
+        if (webSocketManager && !webSocketManager.isConnected()) {
+            await webSocketManager.initWebSocket();
 
-            this.outputWebSocketManagers[1].connectOnMessage((message) => {
-                this.webSocketOutputCallback(message);
+            webSocketManager.connectOnMessage((message) => {
+                this.webSocketOutputCallback(message, remote);
             });
-        } else if (this.outputWebSocketManagers[1]) {
+        } else if (webSocketManager) {
             consoleLog("Remote output WebSocket is already connected.");
         } else {
             consoleWarn("Remote output WebSocket manager is not initialized.");
@@ -881,10 +1512,14 @@ export class SyncManager {
 
     /**
      * Disconnect the remote output WebSocket.
+     *
+     * @param remote The peer to disconnect from.
      */
-    disconnectRemoteOutputWebSocket() {
-        if (this.outputWebSocketManagers[1])
-            this.outputWebSocketManagers[1].closeWebSocket();
+    disconnectRemoteOutputWebSocket(remote: Remote) {
+        const webSocketManager = this.outputWebSocketManagers.get(remote.url);
+
+        if (webSocketManager)
+            webSocketManager.closeWebSocket();
         else
             consoleWarn("Remote output WebSocket manager is not initialized.");
     }
@@ -894,24 +1529,27 @@ export class SyncManager {
      *
      * @param paths An array of file paths to reload in the remote Protyles.
      *              If undefined, reload all Protyles.
+     * @param remote The peer whose Protyles should be reloaded.
      */
-    async sendReloadProtylesMessage(paths: string[] | undefined = undefined) {
-        if (!(await this.shouldUseWebSocket())) {
+    async sendReloadProtylesMessage(paths: string[] | undefined, remote: Remote) {
+        if (!(await this.shouldUseWebSocket(remote))) {
             consoleWarn("WebSocket is not enabled or remote is not listening.");
             return;
         }
 
-        let payload: Payload;
-
-        if (paths === undefined)
-            payload = new Payload("reload-protyles", {});
-        else
-            payload = new Payload("reload-protyles-if-open", { paths });
-
-        if (this.inputWebSocketManagers[1])
-            await this.transmitWebSocketMessage(payload.toString(), this.inputWebSocketManagers[1]);
-        else
+        if (!this.inputWebSocketManagers.has(remote.url)) {
             consoleWarn("Remote input WebSocket manager is not initialized.");
+            return;
+        }
+
+        try {
+            if (paths === undefined)
+                await this.requestViaWebSocket("reload-protyles", {}, remote, { noResponse: !this.hasCapability(remote, "acks") });
+            else
+                await this.requestViaWebSocket("reload-protyles-if-open", { paths }, remote, { noResponse: !this.hasCapability(remote, "acks") });
+        } catch (error) {
+            consoleWarn(`Failed to reload the Protyles of ${remote.name}:`, error);
+        }
     }
 
     /**
@@ -928,36 +1566,114 @@ export class SyncManager {
 
     /**
      * Main sync handler function.
-     * This is called to initiate the sync process with the specified remotes.
-     * It acquires locks and calls the syncWithRemote function to handle synchronization,
-     * and handles any exceptions that may occur during the process.
+     * This is called to initiate the sync process with the specified peers.
+     * The local server is synced with each peer in turn, and the final sync status
+     * reflects the worst outcome among all of them.
      *
      * @param persistentMessage Whether to show a persistent message during sync, defaults to true.
-     * @param remotes The remotes to sync with, defaults to the current remotes.
+     * @param peers The peers to sync with, defaults to all the enabled peers.
+     * @param direction The direction of the sync, defaults to bidirectional.
+     * @param preview Whether to show the planned operations for approval before running them, defaults to false.
      */
     async syncHandler(
         persistentMessage: boolean = true,
-        remotes: [Remote, Remote] = this.copyRemotes(this.remotes)
+        peers: Remote[] = this.getPeers(),
+        direction: SyncDirection = SyncDirection.Bidirectional,
+        preview: boolean = false
     ) {
+        if (this.getSyncStatus() === SyncStatus.InProgress) {
+            consoleWarn("Sync is already in progress.");
+            return;
+        }
+
+        if (peers.length === 0) {
+            consoleWarn("No enabled peers configured, skipping sync.");
+            showMessage(this.plugin.i18n.noPeersConfigured, 6000, "error");
+            this.setSyncStatus(SyncStatus.Failed);
+            return;
+        }
+
+        this.abortController = new AbortController();
+        const signal = this.abortController.signal;
+        this.setSyncStatus(SyncStatus.InProgress);
+
+        const results: SyncStatus[] = [];
+        for (const remotes of this.getRemotePairs(peers)) {
+            // The remaining peers are not synced once the sync is cancelled
+            if (signal.aborted) break;
+            results.push(await this.syncPairHandler(remotes, persistentMessage, direction, preview, signal));
+        }
+
+        this.abortController = null;
+
+        if (results.includes(SyncStatus.Failed))
+            this.setSyncStatus(SyncStatus.Failed);
+        else if (signal.aborted)
+            this.setSyncStatus(SyncStatus.Cancelled);
+        else if (results.includes(SyncStatus.DoneWithConflict))
+            this.setSyncStatus(SyncStatus.DoneWithConflict);
+        else if (results.every(result => result === SyncStatus.Cancelled))
+            this.setSyncStatus(SyncStatus.Cancelled);
+        else
+            this.setSyncStatus(SyncStatus.Done);
+    }
+
+    /**
+     * Cancel the running sync.
+     * The operations in progress are aborted, the locks are released and the partial result is written to the sync log.
+     */
+    cancelSync() {
+        if (!this.abortController || this.abortController.signal.aborted) {
+            consoleWarn("No sync to cancel.");
+            return;
+        }
+
+        consoleWarn("Cancelling the sync...");
+        showMessage(this.plugin.i18n.cancellingSync, 4000);
+        this.abortController.abort(new DOMException("The sync was cancelled", "AbortError"));
+    }
+
+    /**
+     * Sync a single pair of remotes.
+     * It acquires locks and calls the syncWithRemote function to handle synchronization,
+     * and handles any exceptions that may occur during the process.
+     *
+     * @param remotes The pair of remotes to sync, the local server and a peer.
+     * @param persistentMessage Whether to show a persistent message during sync.
+     * @param direction The direction of the sync.
+     * @param preview Whether to show the planned operations for approval before running them.
+     * @param signal Aborts the sync when it is cancelled.
+     * @returns The resulting sync status for this pair.
+     */
+    private async syncPairHandler(
+        remotes: [Remote, Remote],
+        persistentMessage: boolean,
+        direction: SyncDirection,
+        preview: boolean,
+        signal?: AbortSignal
+    ): Promise<SyncStatus> {
         const startTime = Date.now();
         let savedError: Error | null = null;
         let promise: Promise<void> | null = null;
         let locked = false;
+        let status = SyncStatus.Done;
         try {
-            if (this.getSyncStatus() === SyncStatus.InProgress) {
-                consoleWarn("Sync is already in progress.");
-                return;
-            }
-
-            this.setSyncStatus(SyncStatus.InProgress);
             SyncUtils.checkRemotes(remotes);
+            this.progress.start(remotes[1].name);
 
-            if (persistentMessage)
-                showMessage(this.plugin.i18n.syncingWithRemote.replace("{{remoteName}}", remotes[1].name), 0, "info", "mainSyncNotification");
+            if (persistentMessage) {
+                const message = {
+                    [SyncDirection.Bidirectional]: this.plugin.i18n.syncingWithRemote,
+                    [SyncDirection.PushOnly]: this.plugin.i18n.pushingToRemote,
+                    [SyncDirection.PullOnly]: this.plugin.i18n.pullingFromRemote
+                }[direction];
 
-            consoleLog(`Syncing with remote server ${remotes[1].name}...`);
+                showMessage(message.replace("{{remoteName}}", remotes[1].name), 0, "info", "mainSyncNotification");
+            }
+
+            consoleLog(`Syncing with remote server ${remotes[1].name} (${SyncDirection[direction]})...`);
 
-            if (this.shouldUseWebSocket()) promise = this.connectRemoteOutputWebSocket();
+            if (this.shouldUseWebSocket(remotes[1])) promise = this.connectRemoteOutputWebSocket(remotes[1]);
 
             await this.acquireAllLocks(remotes);
             locked = true;
@@ -967,14 +1683,36 @@ export class SyncManager {
                 this.pendingFileChanges.set(filePath, 0);
             });
 
-            await this.syncWithRemote(remotes, promise);
+            const resumedRun = await this.getRunToResume(remotes, persistentMessage && !preview);
+
+            if (!await this.syncWithRemote(remotes, promise, direction, preview, signal, resumedRun))
+                status = SyncStatus.Cancelled;
         } catch (error) {
-            savedError = error;
-            this.setSyncStatus(SyncStatus.Failed);
+            if (signal?.aborted) {
+                status = SyncStatus.Cancelled;
+            } else {
+                savedError = error;
+                status = SyncStatus.Failed;
+            }
         } finally {
+            // The sync did not reach its end, what is left of it can be resumed by the next one
+            if (this.syncRun) {
+                await this.syncRun.flush();
+                this.syncRun = null;
+            }
+
+            // A failed sync is journaled as well, so that its partial changes can be undone
+            if (this.journal) {
+                await this.journal.save();
+                this.journal = null;
+            }
+
             if (locked) await this.releaseAllLocks(remotes);
             consoleLog("Released all sync locks.");
 
+            const progress = this.progress.get();
+            this.progress.finish();
+
             const duration = startTime ? ((Date.now() - startTime) / 1000).toFixed(1) : "0.0";
 
             // Remove the main sync message
@@ -992,16 +1730,37 @@ export class SyncManager {
                     6000,
                     "error"
                 );
+
+                if (savedError instanceof SyncLockError && persistentMessage)
+                    this.offerForceUnlock(savedError);
+            } else if (status === SyncStatus.Cancelled && signal?.aborted) {
+                const { planned, completed } = progress ? SyncProgress.getTotals(progress) : { planned: 0, completed: 0 };
+
+                showMessage(
+                    this.plugin.i18n.syncAborted
+                        .replace("{{remoteName}}", remotes[1].name)
+                        .replace("{{completed}}", String(completed))
+                        .replace("{{planned}}", String(planned)),
+                    6000
+                );
+                consoleWarn(`Sync with ${remotes[1].name} cancelled after ${duration} seconds, the files synced so far are kept and the sync history is left untouched.`);
+            } else if (status === SyncStatus.Cancelled) {
+                showMessage(this.plugin.i18n.syncCancelled.replace("{{remoteName}}", remotes[1].name), 6000);
+                consoleLog(`Sync with ${remotes[1].name} cancelled after ${duration} seconds.`);
             } else if (this.conflictDetected) {
                 if (persistentMessage)
                     showMessage(this.plugin.i18n.syncCompletedWithConflicts.replace("{{duration}}", duration), 6000);
                 consoleWarn(`Sync completed with conflicts in ${duration} seconds.`);
-                this.setSyncStatus(SyncStatus.DoneWithConflict);
+                status = SyncStatus.DoneWithConflict;
             } else {
                 if (persistentMessage)
                     showMessage(this.plugin.i18n.syncCompletedSuccessfully.replace("{{duration}}", duration), 6000);
                 consoleLog(`Sync completed successfully in ${duration} seconds!`);
-                this.setSyncStatus(SyncStatus.Done);
+            }
+
+            if (progress) {
+                const { planned, completed } = SyncProgress.getTotals(progress);
+                consoleLog(`Scanned ${progress.scannedDirectories} directories, completed ${completed} of ${planned} operations (${progress.failed} failed), transferred ${SyncProgress.formatBytes(progress.bytesTransferred)}.`);
             }
 
             await SyncUtils.writeSyncLog(
@@ -1015,9 +1774,12 @@ export class SyncManager {
             this.conflictDetected = false;
             this.locallyUpdatedFiles.clear();
             this.remotelyUpdatedFiles.clear();
+            this.syncedPaths.clear();
             this.cleanupWebSocketRequestIds();
-            this.disconnectRemoteOutputWebSocket();
+            this.disconnectRemoteOutputWebSocket(remotes[1]);
         }
+
+        return status;
     }
 
     /**
@@ -1025,16 +1787,35 @@ export class SyncManager {
      * This function handles the main synchronization logic, including fetching notebooks,
      * creating data snapshots if enabled, and syncing directories and files.
      * @param remotes An array of exactly two Remote objects containing remote server information.
+     * @param promise An optional promise to wait for before using the WebSocket connection.
+     * @param direction The direction of the sync, one-way syncs never write to the protected side.
+     * @param preview Whether to show the planned operations for approval before running them.
+     * @param signal Aborts the sync when it is cancelled, the abort error is thrown.
+     * @param resumedRun An interrupted sync whose remaining operations are executed before planning the new ones.
+     * @returns False if the sync was cancelled from the preview, true otherwise.
      */
-    private async syncWithRemote(remotes: [Remote, Remote] = this.copyRemotes(this.remotes), promise: Promise<void> | null = null) {
+    private async syncWithRemote(
+        remotes: [Remote, Remote],
+        promise: Promise<void> | null = null,
+        direction: SyncDirection = SyncDirection.Bidirectional,
+        preview: boolean = false,
+        signal?: AbortSignal,
+        resumedRun: SyncRunState | null = null
+    ): Promise<boolean> {
         SyncUtils.checkRemotes(remotes);
+        this.operationPool = new PromiseLimitPool<void>(SyncManager.MAX_CONCURRENT_OPERATIONS);
+
+        const startTime = Date.now();
+
+        // Timestamps of the two remotes are only compared once converted to the local clock
+        await this.checkClockSkew(remotes);
 
         const isRemoteAppIdSet = this.isRemoteAppIdSet(remotes[1]);
-        const useWebSocket: boolean = await this.shouldUseWebSocket() && isRemoteAppIdSet;
+        const useWebSocket: boolean = await this.shouldUseWebSocket(remotes[1]) && isRemoteAppIdSet;
         let disconnectWebSocket = false;
 
-        if (useWebSocket && !this.outputWebSocketManagers[1].isConnected()) {
-            this.connectRemoteOutputWebSocket();
+        if (useWebSocket && !this.outputWebSocketManagers.get(remotes[1].url).isConnected()) {
+            this.connectRemoteOutputWebSocket(remotes[1]);
             consoleLog("Connected to remote output WebSocket for directory sync.");
             disconnectWebSocket = true;
         }
@@ -1049,13 +1830,28 @@ export class SyncManager {
             this.checkAndSetInstanceId(remotes[1])
         ]);
 
-        // Load sync history for both remotes
+        if (this.plugin.settingsManager.getPref("keepSyncJournal")) {
+            this.journal = new SyncJournal(remotes, (copies, peer) => this.copyPeerFiles(copies, peer));
+            await this.journal.begin();
+        }
+
+        // Load sync history and content hashes for both remotes
         await Promise.all([
             SyncHistory.loadSyncHistory(remotes[0]).then(syncHistory => {
                 remotes[0].syncHistory = syncHistory;
             }),
             SyncHistory.loadSyncHistory(remotes[1]).then(syncHistory => {
                 remotes[1].syncHistory = syncHistory;
+            }),
+            HashManifest.loadHashManifest(remotes[0]).then(hashManifest => {
+                remotes[0].hashManifest = hashManifest;
+            }),
+            HashManifest.loadHashManifest(remotes[1]).then(hashManifest => {
+                remotes[1].hashManifest = hashManifest;
+            }),
+            ...remotes.map(async remote => {
+                remote.tombstones = await Tombstones.loadTombstones(remote);
+                remote.fileIndex = await Tombstones.loadFileIndex(remote);
             })
         ]);
 
@@ -1074,13 +1870,27 @@ export class SyncManager {
         );
 
         const trackConflicts = this.plugin.settingsManager.getPref("trackConflicts");
+        const syncRules = this.getSyncRules();
 
         if (promise) await promise;
 
         await this.fetchAndSetRemoteAppId(remotes);
+        signal?.throwIfAborted();
+
+        // Files are only sent encrypted through the plugin of the peer, the sync stops rather than sending them in plaintext
+        if (this.isEncryptionEnabled()) await this.requireEncryptedChannel(remotes[1]);
+
+        this.syncRun = new SyncRun(remotes, direction);
+        if (resumedRun) await this.resumeSyncRun(remotes, resumedRun, direction, signal);
 
         // Get sync targets using the external function
-        const syncTargets = getSyncTargets({ notebooks, trackConflicts });
+        const syncTargets = getSyncTargets({ notebooks, trackConflicts, syncRules });
+        const syncedNotebooks = notebooks.filter(notebook => !syncRules.isNotebookExcluded(notebook.id));
+
+        // In preview mode the operations are only planned here, and run once approved
+        const plannedOperations: SyncFileOperation[] | null = preview ? [] : null;
+
+        this.progress.setTotalDirectories(syncTargets.length);
 
         // Execute all sync operations
         const promises = syncTargets.map(target => {
@@ -1092,17 +1902,54 @@ export class SyncManager {
             return this.syncDirectory(
                 remotesWithFile,
                 target.excludedItems || [],
-                target.options
+                target.options,
+                direction,
+                plannedOperations,
+                signal
             );
         });
 
         // Add the petals list sync
-        promises.push(this.syncPetalsListIfEmpty(remotes));
+        if (!preview) promises.push(this.syncPetalsListIfEmpty(remotes, direction));
 
         // Execute all sync operations concurrently
-        consoleLog(`Starting sync operations for ${notebooks.length} notebooks and ${syncTargets.length - notebooks.length * 2} other directories...`);
+        consoleLog(`Starting sync operations for ${syncedNotebooks.length} notebooks and ${syncTargets.length - syncedNotebooks.length * 2} other directories...`);
 
-        await Promise.all(promises);
+        // Every directory is waited for, so that nothing is still running once the locks are released
+        const results = await Promise.allSettled(promises);
+        signal?.throwIfAborted();
+
+        const failure = results.find(result => result.status === "rejected") as PromiseRejectedResult | undefined;
+        if (failure) throw failure.reason;
+
+        let partialSync = direction !== SyncDirection.Bidirectional;
+
+        if (plannedOperations) {
+            this.dismissMainSyncNotification();
+
+            const approvedOperations = await SyncPreview.show(this.plugin.i18n, remotes, plannedOperations);
+            if (!approvedOperations) {
+                consoleLog(`Sync preview cancelled, ${plannedOperations.length} planned operations discarded.`);
+                if (disconnectWebSocket) this.disconnectRemoteOutputWebSocket(remotes[1]);
+                await this.finishSyncRun();
+                return false;
+            }
+
+            consoleLog(`Sync preview approved, running ${approvedOperations.length} of ${plannedOperations.length} planned operations.`);
+            partialSync ||= approvedOperations.length < plannedOperations.length;
+            this.progress.addPlanned(approvedOperations, true);
+            this.syncRun?.addPlanned(approvedOperations);
+
+            await Promise.all([
+                this.executeOperationsByPriority(approvedOperations, signal),
+                this.syncPetalsListIfEmpty(remotes, direction)
+            ]);
+            signal?.throwIfAborted();
+        }
+
+        // The files of failed operations differ on the two remotes, indexing them could delete the only copy later on
+        const failed = this.progress.get()?.failed ?? 0;
+        partialSync ||= failed > 0;
 
         reloadFiletree(remotes[0].url, SyncUtils.getHeaders(remotes[0].key));
         reloadFiletree(remotes[1].url, SyncUtils.getHeaders(remotes[1].key));
@@ -1132,43 +1979,444 @@ export class SyncManager {
 
         if (remoteAvFiles.length > 0) {
             consoleLog(`Remotely updated AV files detected: ${remoteAvFiles.join(", ")}`);
-            await this.sendReloadProtylesMessage();
+            await this.sendReloadProtylesMessage(undefined, remotes[1]);
         } else {
-            this.sendReloadProtylesMessage(Array.from(this.remotelyUpdatedFiles));
+            this.sendReloadProtylesMessage(Array.from(this.remotelyUpdatedFiles), remotes[1]);
+        }
+
+        // The hashes only describe files which are equal on both sides, so they are valid for partial syncs too
+        await HashManifest.updateHashManifests(remotes);
+        await Promise.allSettled(remotes.map(remote => Tombstones.saveTombstones(remote)));
+
+        /*
+         * One-way syncs and previews with unticked operations leave the two remotes out of sync on purpose,
+         * as do syncs with failed operations, so the sync history is not updated.
+         * Otherwise files which were not copied would be considered deleted.
+         */
+        if (partialSync) {
+            if (disconnectWebSocket) this.disconnectRemoteOutputWebSocket(remotes[1]);
+
+            consoleLog(`Partial sync completed${failed > 0 ? ` with ${failed} failed operations` : ""}, sync history left untouched.`);
+            await this.finishSyncRun();
+            return true;
         }
 
         const timestamp = Math.floor(Date.now() / 1000);
 
-        remotes[0].syncHistory.set(remotes[0].instanceId, timestamp);
-        remotes[0].syncHistory.set(remotes[1].instanceId, timestamp);
-        remotes[1].syncHistory.set(remotes[0].instanceId, timestamp);
-        remotes[1].syncHistory.set(remotes[1].instanceId, timestamp);
-        this.remotes[0].syncHistory = remotes[0].syncHistory;
-        this.remotes[1].syncHistory = remotes[1].syncHistory;
+        await Tombstones.updateFileIndexes(remotes, this.syncedPaths, timestamp);
+        await this.outbox.clearPeer(remotes[1].url, startTime);
+
+        // Each remote keeps its sync history on its own clock, to compare it with its own files
+        for (const remote of remotes) {
+            remote.syncHistory.set(remotes[0].instanceId, remote.toRemoteTime(timestamp));
+            remote.syncHistory.set(remotes[1].instanceId, remote.toRemoteTime(timestamp));
+        }
+        this.localRemote.syncHistory = remotes[0].syncHistory;
+
+        const peer = this.peers.find(peer => peer.url === remotes[1].url);
+        if (peer) {
+            peer.instanceId = remotes[1].instanceId;
+            peer.syncHistory = remotes[1].syncHistory;
+        }
 
-        await SyncHistory.updateSyncHistories(this.remotes);
+        await SyncHistory.updateSyncHistories(remotes);
+        await this.finishSyncRun();
 
-        if (disconnectWebSocket) this.disconnectRemoteOutputWebSocket();
+        if (disconnectWebSocket) this.disconnectRemoteOutputWebSocket(remotes[1]);
 
         consoleLog(`Sync completed. Updated sync history for both remotes.`);
+        return true;
     }
 
-    private getRemoteDirFilesViaWebSocket(path: string, excludedItems: string[], appId: string): Promise<StorageItem> {
-        return new Promise(async (resolve, reject) => {
-            const requestId = Math.random().toString(36).substring(2, 15);
-            this.pendingDirRequests.set(requestId, resolve);
+    /**
+     * Look for an interrupted sync with the peer, and ask whether to resume it.
+     * The deletions it completed are recorded in the tombstones either way, so that planning again does not undo them.
+     *
+     * @param remotes The pair of remotes to sync.
+     * @param ask Whether to ask the user, otherwise the sync is planned again.
+     * @returns The interrupted sync to resume, or null to plan the sync from scratch.
+     */
+    private async getRunToResume(remotes: [Remote, Remote], ask: boolean): Promise<SyncRunState | null> {
+        const state = await SyncRun.load(remotes[1].url);
+        if (!state) return null;
+
+        const pending = SyncRun.getPendingOperations(state);
+        consoleLog(`Found an interrupted sync with ${remotes[1].name} started at ${new Date(state.startedAt).toLocaleString()}, ${pending.length} of ${state.operations.length} operations left.`);
 
-            // Timeout to prevent waiting forever
-            setTimeout(() => {
-                if (this.pendingDirRequests.has(requestId)) {
-                    this.pendingDirRequests.delete(requestId);
-                    reject(new Error(`Request for directory files timed out: ${path}`));
+        for (const operation of SyncRun.getCompletedDeletions(state))
+            await Tombstones.recordDeletions(remotes[operation.destination], [operation.path], operation.tombstone);
+
+        const resume = ask && pending.length > 0 && await SyncRun.askResume(this.plugin.i18n, state);
+        await SyncRun.clear(remotes[1].url);
+
+        consoleLog(resume ? "Resuming the interrupted sync." : "Planning the sync again.");
+        return resume ? state : null;
+    }
+
+    /**
+     * Execute the operations left by an interrupted sync.
+     * Each of them is planned again from the current state of the file, which may have changed since.
+     * Directories are left to the new plan, which compares their content file by file.
+     *
+     * @param remotes The pair of remotes to sync.
+     * @param state The interrupted sync.
+     * @param direction The direction of the sync.
+     * @param signal Aborts the operations when the sync is cancelled.
+     */
+    private async resumeSyncRun(remotes: [Remote, Remote], state: SyncRunState, direction: SyncDirection, signal?: AbortSignal) {
+        const pending = SyncRun.getPendingOperations(state);
+
+        const operations = (await Promise.all(pending.map(async pendingOperation => {
+            const operation = await this.getSyncFileOperation(pendingOperation.path, pendingOperation.options, remotes);
+            if (!operation || (operation.source?.file ?? operation.destination?.file)?.isDir) return null;
+            return operation;
+        }))).filter(Boolean);
+
+        const allowedOperations = this.filterOperationsByDirection(operations, direction);
+        consoleLog(`Resuming ${allowedOperations.length} operations of the interrupted sync, ${pending.length - allowedOperations.length} are no longer needed or left to the new plan.`);
+
+        this.progress.addPlanned(allowedOperations);
+        this.syncRun?.addPlanned(allowedOperations);
+        await this.executeOperationsByPriority(allowedOperations, signal);
+    }
+
+    /**
+     * Remove the record of the current sync, which reached its end.
+     */
+    private async finishSyncRun() {
+        await this.syncRun?.finish();
+        this.syncRun = null;
+    }
+
+    /**
+     * Measure the clock offset of both remotes, so that their timestamps can be compared.
+     * The offset of the peer is kept for the instant sync changes.
+     *
+     * @param remotes The pair of remotes to sync.
+     * @throws If the clocks of the remotes are further apart than the configured threshold.
+     */
+    private async checkClockSkew(remotes: [Remote, Remote]) {
+        const offsets = await Promise.all(remotes.map(remote => SyncUtils.measureClockOffset(remote)));
+
+        offsets.forEach((offset, index) => {
+            if (offset === null)
+                consoleWarn(`Could not read the clock of ${remotes[index].name}, assuming it is on time.`);
+            remotes[index].clockOffset = offset ?? 0;
+        });
+
+        const skew = remotes[1].clockOffset - remotes[0].clockOffset;
+        if (skew !== 0)
+            consoleWarn(`The clock of ${remotes[1].name} is ${skew} seconds ${skew > 0 ? "ahead of" : "behind"} ${remotes[0].name}, compensating.`);
+
+        const maxSkew = Number(this.plugin.settingsManager.getPref("maxClockSkew")) * 60;
+        if (maxSkew > 0 && Math.abs(skew) > maxSkew) {
+            throw new Error(this.plugin.i18n.clockSkewTooLarge
+                .replace("{{remoteName}}", remotes[1].name)
+                .replace("{{skew}}", String(Math.abs(skew)))
+                .replace("{{maxSkew}}", String(maxSkew)));
+        }
+
+        const peer = this.peers.find(peer => peer.url === remotes[1].url);
+        if (peer) peer.clockOffset = remotes[1].clockOffset;
+        this.localRemote.clockOffset = remotes[0].clockOffset;
+    }
+
+    /**
+     * Scan a directory of a peer through its WebSocket connection, faster than listing it through the API.
+     *
+     * @param path The path of the directory.
+     * @param excludedItems The names of the items to exclude.
+     * @param syncRules The sync rules to apply.
+     * @param remote The peer.
+     */
+    private async getRemoteDirFilesViaWebSocket(path: string, excludedItems: string[], syncRules: SyncRules, remote: Remote): Promise<StorageItem> {
+        const { item } = await this.requestViaWebSocket("get-dir-files", {
+            path, excludedItems, syncRules: syncRules.toObject(), appId: remote.appId
+        }, remote);
+
+        return StorageItem.fromObject(item);
+    }
+
+    /**
+     * Handle a delta transfer request of a peer, on the local version of the file.
+     *
+     * @param payload The request.
+     * @returns The data of the response, without a result if the file cannot be read.
+     */
+    private async handleDeltaRequest(payload: Payload): Promise<any> {
+        const { path, blockSize } = payload.data;
+
+        try {
+            const blob = await getFileBlob(path, this.localRemote.url, SyncUtils.getHeaders(this.localRemote.key));
+            if (!blob) return {};
+
+            const data = new Uint8Array(await blob.arrayBuffer());
+
+            switch (payload.type) {
+                case "get-block-signatures":
+                    return { signatures: await DeltaSync.computeSignatures(data, blockSize) };
+
+                case "get-delta":
+                    return { delta: await DeltaSync.computeDelta(data, payload.data.signatures) };
+
+                case "apply-delta": {
+                    const { delta, timestamp } = payload.data;
+
+                    // The file may have changed since its signatures were sent, the hash check fails then
+                    const content = await DeltaSync.applyDelta(data, delta, blockSize);
+                    if (!content) return { ok: false };
+
+                    const file = new File([content], path.split("/").pop(), { lastModified: timestamp });
+                    return { ok: await SyncUtils.putFile(path, file, this.localRemote.url, this.localRemote.key, timestamp) };
                 }
-            }, 5000);
+            }
+        } catch (error) {
+            consoleError(`Error handling ${payload.type} request for ${path}:`, error);
+        }
 
-            const payload = new Payload("get-dir-files", { path, excludedItems, requestId, appId });
-            await this.transmitWebSocketMessage(payload.toString(), this.inputWebSocketManagers[1]);
+        return {};
+    }
+
+    /**
+     * Transfer a file by sending only the blocks which changed, when the destination has an older version of it.
+     * The device holding the older version computes the signatures of its blocks, the other one the delta from them.
+     * Only files above the size threshold are transferred this way, through the WebSocket connection with the peer.
+     *
+     * @param filePath The path of the file.
+     * @param source The remote holding the newer version.
+     * @param destination The remote holding the older version.
+     * @param timestamp The modification time to set on the destination, in milliseconds.
+     * @param signal Aborts the transfer when the sync is cancelled, the abort error is thrown.
+     * @returns The new content of the file once written on the destination, or null if the whole file must be transferred.
+     */
+    private async transferDelta(
+        filePath: string,
+        source: Remote,
+        destination: Remote,
+        timestamp: number,
+        signal?: AbortSignal
+    ): Promise<Blob | null> {
+        const threshold = Number(this.plugin.settingsManager.getPref("deltaSyncThreshold")) * 1024 * 1024;
+        if (!(threshold > 0) || !DeltaSync.isSupported() || destination.file?.timestamp === undefined) return null;
+
+        const [local, peer] = source.isLocal() ? [source, destination] : [destination, source];
+        if (!(await this.shouldUseWebSocket(peer) && this.isRemoteAppIdSet(peer)) || !this.hasCapability(peer, "delta-transfer")) return null;
+
+        try {
+            const localBlob = await getFileBlob(filePath, local.url, SyncUtils.getHeaders(local.key), undefined, signal);
+            if (!localBlob || localBlob.size < threshold) return null;
+
+            const localData = new Uint8Array(await localBlob.arrayBuffer());
+            const blockSize = DeltaSync.getBlockSize(localBlob.size);
+
+            let content: Blob;
+            let sent: number;
+
+            if (source === local) {
+                const { signatures } = await this.requestViaWebSocket("get-block-signatures", { path: filePath, blockSize, appId: peer.appId }, peer, { timeout: DeltaSync.REQUEST_TIMEOUT });
+                if (!signatures) return null;
+
+                const delta = await DeltaSync.computeDelta(localData, signatures);
+                if (!DeltaSync.isWorthSending(delta)) return null;
+
+                signal?.throwIfAborted();
+                await this.journal?.backup(filePath, destination);
+
+                const { ok } = await this.requestViaWebSocket("apply-delta", { path: filePath, blockSize, delta, timestamp, appId: peer.appId }, peer, { timeout: DeltaSync.REQUEST_TIMEOUT });
+                if (!ok) return null;
+
+                content = localBlob;
+                sent = DeltaSync.getLiteralSize(delta);
+            } else {
+                const signatures = await DeltaSync.computeSignatures(localData, blockSize);
+                const { delta } = await this.requestViaWebSocket("get-delta", { path: filePath, blockSize, signatures, appId: peer.appId }, peer, { timeout: DeltaSync.REQUEST_TIMEOUT });
+                if (!delta) return null;
+
+                const data = await DeltaSync.applyDelta(localData, delta, blockSize);
+                if (!data) return null;
+
+                signal?.throwIfAborted();
+                await this.journal?.backup(filePath, destination);
+
+                content = new Blob([data]);
+                const file = new File([content], source.file.name, { lastModified: timestamp });
+                if (!await SyncUtils.putFile(filePath, file, destination.url, destination.key, timestamp, signal)) return null;
+
+                sent = DeltaSync.getLiteralSize(delta);
+            }
+
+            this.progress.addBytes(sent);
+            consoleLog(`Delta transfer of ${filePath}: ${SyncProgress.formatBytes(sent)} sent instead of ${SyncProgress.formatBytes(content.size)}.`);
+            return content;
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            consoleWarn(`Delta transfer of ${filePath} failed, transferring the whole file:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Get the content hashes of the file attached to two remotes, without downloading it from the peers.
+     *
+     * @param remotes The remotes with the file attached.
+     * @returns The hex encoded hashes, null when one cannot be computed.
+     */
+    private async getFileHashes(remotes: [Remote, Remote]): Promise<[string | null, string | null]> {
+        const hashPeerFile = (path: string, peer: Remote) => this.getPeerFileHash(path, peer);
+        const [first, second] = await Promise.all(remotes.map(remote => HashManifest.getFileHash(remote, hashPeerFile)));
+        return [first, second];
+    }
+
+    /**
+     * Ask a peer to hash one of its files.
+     *
+     * @param filePath The path of the file.
+     * @param peer The peer holding the file.
+     * @returns The hex encoded hash, or null if the file does not exist or the peer cannot hash files.
+     */
+    private async getPeerFileHash(filePath: string, peer: Remote): Promise<string | null> {
+        if (!(await this.shouldUseWebSocket(peer) && this.isRemoteAppIdSet(peer)) || !this.hasCapability(peer, "file-hash")) return null;
+
+        const { hash } = await this.requestViaWebSocket("get-file-hash", { path: filePath, appId: peer.appId }, peer, {
+            timeout: HashManifest.HASH_TIMEOUT
         });
+        return hash ?? null;
+    }
+
+    /**
+     * Ask a peer to copy some of its files, so that they are not downloaded and uploaded back.
+     *
+     * @param copies The files to copy.
+     * @param peer The peer holding the files.
+     * @returns Whether each file was copied, or null if the peer cannot copy files.
+     * @throws If the peer cannot copy files while encryption is enabled, as the files would be exchanged in plaintext.
+     */
+    private async copyPeerFiles(copies: FileCopy[], peer: Remote): Promise<boolean[] | null> {
+        if (!(await this.shouldUseWebSocket(peer) && this.isRemoteAppIdSet(peer)) || !this.hasCapability(peer, "file-copy")) {
+            if (this.isEncryptionEnabled())
+                throw new Error(this.plugin.i18n.encryptionUnavailable.replace("{{remoteName}}", peer.name));
+            return null;
+        }
+
+        const { copied } = await this.requestViaWebSocket("copy-files", { copies, appId: peer.appId }, peer, {
+            timeout: SyncJournal.COPY_TIMEOUT
+        });
+        return copied;
+    }
+
+    /**
+     * Get the content of a file to sync from its source.
+     * With encryption, a peer stages the file in encrypted parts, downloaded and decrypted here.
+     *
+     * @param filePath The path of the file.
+     * @param source The remote holding the file.
+     * @param signal Aborts the download when the sync is cancelled, the abort error is thrown.
+     * @returns The content of the file, or null if it does not exist.
+     */
+    private async getSourceFile(filePath: string, source: Remote, signal?: AbortSignal): Promise<Blob | null> {
+        if (source.isLocal() || !this.isEncryptionEnabled())
+            return getFileBlob(filePath, source.url, SyncUtils.getHeaders(source.key), undefined, signal);
+
+        await this.requireEncryptedChannel(source);
+
+        const { dir } = await this.requestViaWebSocket("stage-file", { path: filePath, appId: source.appId }, source, {
+            timeout: ChunkedTransfer.ASSEMBLY_TIMEOUT
+        });
+        if (!dir) return null;
+
+        signal?.throwIfAborted();
+        const content = await ChunkedTransfer.download(dir, source, await this.getEncryptionKey());
+        if (!content) throw new Error(`Failed to download ${filePath} from ${source.name}`);
+
+        return content;
+    }
+
+    /**
+     * Do the handshake with a peer not reached yet, as its files may be exchanged before the sync reaches it.
+     *
+     * @param peer The peer.
+     */
+    private async ensureHandshake(peer: Remote) {
+        if (!peer.appId) await this.fetchAndSetRemoteAppId([this.localRemote, peer]);
+    }
+
+    /**
+     * Read a file of a peer through the encrypted channel.
+     *
+     * @param filePath The path of the file.
+     * @param peer The peer holding the file.
+     * @param signal Aborts the download when the sync is cancelled, the abort error is thrown.
+     * @returns The content of the file, or null if it does not exist.
+     */
+    private async readPeerFile(filePath: string, peer: Remote, signal?: AbortSignal): Promise<Blob | null> {
+        await this.ensureHandshake(peer);
+        return this.getSourceFile(filePath, peer, signal);
+    }
+
+    /**
+     * Write a file to a peer through the encrypted channel.
+     *
+     * @param filePath The path of the file.
+     * @param file The content of the file.
+     * @param peer The peer to write to.
+     * @param timestamp The modification time to set on the peer, in milliseconds.
+     * @param index Whether the peer updates its indexes once the file is written.
+     * @param signal Aborts the upload when the sync is cancelled, the abort error is thrown.
+     */
+    private async writePeerFile(filePath: string, file: File, peer: Remote, timestamp: number, index: boolean, signal?: AbortSignal) {
+        await this.ensureHandshake(peer);
+        if (!await this.uploadChunked(filePath, file, peer, timestamp, signal, index))
+            throw new Error(`Failed to upload ${filePath} to ${peer.name}`);
+    }
+
+    /**
+     * Upload a large file to a peer in parts, staged on the peer and assembled there once they are all verified.
+     * An interrupted upload resumes from the parts already staged, at the next attempt or the next sync.
+     * Only files above the size threshold are uploaded this way, as the peer assembles them through the WebSocket connection.
+     * With encryption, every file sent to a peer is uploaded this way.
+     *
+     * @param filePath The path of the file.
+     * @param content The content of the file.
+     * @param destination The peer to upload to.
+     * @param timestamp The modification time to set on the peer, in milliseconds.
+     * @param signal Aborts the upload when the sync is cancelled, the abort error is thrown.
+     * @param index Whether the peer updates its indexes once the file is assembled.
+     * @returns False if the file must be uploaded in a single request.
+     */
+    private async uploadChunked(
+        filePath: string,
+        content: Blob,
+        destination: Remote,
+        timestamp: number,
+        signal?: AbortSignal,
+        index: boolean = true
+    ): Promise<boolean> {
+        const threshold = Number(this.plugin.settingsManager.getPref("chunkedUploadThreshold")) * 1024 * 1024;
+        const encryptionKey = destination.isLocal() ? null : await this.getEncryptionKey();
+
+        // Encrypted files are always uploaded in parts, only the plugin of the peer can decrypt them
+        if (encryptionKey) {
+            await this.requireEncryptedChannel(destination);
+        } else {
+            if (!(threshold > 0) || content.size < threshold || destination.isLocal() || !ChunkedTransfer.isSupported()) return false;
+            if (!(await this.shouldUseWebSocket(destination) && this.isRemoteAppIdSet(destination)) || !this.hasCapability(destination, "chunked-upload")) return false;
+        }
+
+        const onChunk = (bytes: number) => this.progress.addBytes(bytes);
+
+        // The parts failing verification are removed by the peer, they are sent again once
+        for (let attempt = 1; attempt <= 2; attempt++) {
+            const dir = await ChunkedTransfer.upload(
+                filePath, content, destination, timestamp, this.getCompressionFormat(destination), onChunk, signal, encryptionKey, index
+            );
+
+            signal?.throwIfAborted();
+            const { ok, missing } = await this.requestViaWebSocket("assemble-transfer", { dir, appId: destination.appId }, destination, { timeout: ChunkedTransfer.ASSEMBLY_TIMEOUT });
+            if (ok) return true;
+            if (!missing?.length) break;
+        }
+
+        throw new Error(`Failed to assemble ${filePath} on ${destination.name}`);
     }
 
     /**
@@ -1177,12 +2425,15 @@ export class SyncManager {
      * @param remotes An array of exactly two Remote objects containing remote server information.
      * @param excludedItems An array of item names to exclude from synchronization.
      * @param useFileNames Whether to use file names as keys instead of file paths.
+     * @param signal Aborts the scan when the sync is cancelled, the abort error is thrown.
      * @returns A map of StorageItem instances where the keys are file names or file paths.
      */
     private async scanDirectory(
         remotes: [Remote, Remote],
-        excludedItems: string[] = []
+        excludedItems: string[] = [],
+        signal?: AbortSignal
     ): Promise<[Remote, Remote] | null> {
+        signal?.throwIfAborted();
         remotes = this.copyRemotes(remotes);
 
         const path = remotes[0].filePath || remotes[1].filePath;
@@ -1193,20 +2444,24 @@ export class SyncManager {
 
         consoleLog(`Scanning directory ${path}. Excluding items: ${excludedItems.join(", ")}`);
 
-        const useWebSocket = await this.shouldUseWebSocket() && this.isRemoteAppIdSet(remotes[1]);
+        const useWebSocket = await this.shouldUseWebSocket(remotes[1]) && this.isRemoteAppIdSet(remotes[1]);
+        const syncRules = this.getSyncRules();
 
         // Fetch directory files only when not already provided
         if ((remotes[0].file?.files?.length === 0 || remotes[1].file?.files?.length === 0) && (!remotes[0].file?.item || !remotes[1].file?.item)) {
-            const filesOnePromise = SyncUtils.getDirFilesRecursively(path, remotes[0], true, excludedItems);
+            const filesOnePromise = SyncUtils.getDirFilesRecursively(path, remotes[0], true, excludedItems, syncRules, signal);
 
             const filesTwoPromise = useWebSocket
-                ? this.getRemoteDirFilesViaWebSocket(path, excludedItems, remotes[1].appId)
-                : SyncUtils.getDirFilesRecursively(path, remotes[1], true, excludedItems);
+                ? this.getRemoteDirFilesViaWebSocket(path, excludedItems, syncRules, remotes[1])
+                : SyncUtils.getDirFilesRecursively(path, remotes[1], true, excludedItems, syncRules, signal);
 
             [remotes[0].file, remotes[1].file] = await Promise.all([
                 filesOnePromise,
                 filesTwoPromise
             ]);
+
+            // The WebSocket scan cannot be aborted, its result is dropped instead
+            signal?.throwIfAborted();
         }
 
         if ((!remotes[0].file && !remotes[1].file) && (!remotes[0].file?.item && !remotes[1].file?.item)) {
@@ -1231,6 +2486,9 @@ export class SyncManager {
      * - onlyIfMissing: If true, only synchronize files that are missing in one of the remotes.
      * - avoidDeletions: If true, do not delete files in any remote.
      * - trackConflicts: If true, track conflicts during synchronization.
+     * @param direction The direction of the sync, defaults to bidirectional.
+     * @param plannedOperations If provided, the operations are collected here instead of being executed.
+     * @param signal Aborts the sync of the directory when the sync is cancelled, the abort error is thrown.
      */
     private async syncDirectory(
         remotes: [Remote, Remote],
@@ -1242,7 +2500,10 @@ export class SyncManager {
             avoidDeletions?: boolean,
             trackConflicts?: boolean,
             trackUpdatedFiles?: boolean
-        }
+        },
+        direction: SyncDirection = SyncDirection.Bidirectional,
+        plannedOperations: SyncFileOperation[] | null = null,
+        signal?: AbortSignal
     ) {
         const path = remotes[0].filePath || remotes[1].filePath;
         if (!path) {
@@ -1250,13 +2511,14 @@ export class SyncManager {
             return;
         }
 
-        remotes = await this.scanDirectory(remotes, excludedItems);
+        remotes = await this.scanDirectory(remotes, excludedItems, signal);
+        this.progress.addScannedDirectory();
         if (!remotes) {
             consoleWarn(`Failed to scan directory ${path}. Skipping sync.`);
             return;
         }
 
-        await this.syncDirWork(remotes, options);
+        await this.syncDirWork(remotes, options, direction, plannedOperations, signal);
     }
 
     /**
@@ -1270,6 +2532,9 @@ export class SyncManager {
      * - onlyIfMissing: If true, only synchronize files that are missing in one of the remotes.
      * - avoidDeletions: If true, do not delete files in any remote.
      * - trackConflicts: If true, track conflicts during synchronization.
+     * @param direction The direction of the sync, defaults to bidirectional.
+     * @param plannedOperations If provided, the operations are collected here instead of being executed.
+     * @param signal Aborts the sync of the directory when the sync is cancelled, the abort error is thrown.
      */
     private async syncDirWork(
         remotes: [Remote, Remote],
@@ -1280,7 +2545,10 @@ export class SyncManager {
             avoidDeletions?: boolean,
             trackConflicts?: boolean,
             trackUpdatedFiles?: boolean
-        }
+        },
+        direction: SyncDirection = SyncDirection.Bidirectional,
+        plannedOperations: SyncFileOperation[] | null = null,
+        signal?: AbortSignal
     ) {
         if (!remotes[0]?.file && !remotes[1]?.file) {
             consoleWarn("No valid file provided for directory sync.");
@@ -1293,30 +2561,48 @@ export class SyncManager {
             return;
         }
 
+        const syncRules = this.getSyncRules();
         const operationPromises: Promise<SyncFileOperation>[] = [];
+        const operationPaths: string[] = [];
         const mapPairs = StorageItem.getFilesMapPairRecursively(remotes[0].file, remotes[1].file, options?.useFileNames);
         for (const [_, items] of mapPairs) {
             const item = items[0] || items[1];
             if (!item) continue;
 
+            // Items may still be listed by peers which do not apply the rules while scanning
+            if (items.some(it => it && syncRules.isExcluded(it.path))) {
+                consoleLog(`Skipping ${item.path}, excluded by the sync rules.`);
+                continue;
+            }
+
             const itemRemotes: [Remote, Remote] = [
                 remotes[0].withFile(items[0]),
                 remotes[1].withFile(items[1])
             ];
 
+            // Paths which were present on a remote at its last sync and are missing now were deleted there
+            if (!items[0]) Tombstones.detectDeletion(remotes[0], item.path);
+            if (!items[1]) Tombstones.detectDeletion(remotes[1], item.path);
+
             operationPromises.push(this.getSyncFileOperation(item.path, options, itemRemotes));
+            operationPaths.push(item.path);
         }
 
         const operations = await Promise.allSettled(operationPromises);
+        signal?.throwIfAborted();
+
         const validOperations: SyncFileOperation[] = [];
 
-        for (const result of operations) {
+        operations.forEach((result, index) => {
             if (result.status === 'fulfilled' && result.value) {
                 validOperations.push(result.value);
-            } else if (result.status === 'rejected') {
+            } else if (result.status === 'fulfilled') {
+                // Already in sync, the paths with an operation are only indexed once it succeeds
+                this.syncedPaths.add(operationPaths[index]);
+            } else {
                 consoleWarn(`Failed to get sync operation: ${result.reason}`);
             }
-        }
+        });
 
         // Sort operations so delete file operations come last
         // This prevents issues where a delete is executed before a move on the same folder
@@ -1390,18 +2676,64 @@ export class SyncManager {
             return true;
         });
 
-        await this.executeOperationsByPriority(sanitizedOperations);
+        const allowedOperations = this.filterOperationsByDirection(sanitizedOperations, direction);
+        this.progress.addPlanned(allowedOperations);
+
+        if (plannedOperations) {
+            plannedOperations.push(...allowedOperations);
+            return;
+        }
+
+        this.syncRun?.addPlanned(allowedOperations);
+        await this.executeOperationsByPriority(allowedOperations, signal);
+    }
+
+    /**
+     * Drop the operations that would write to the protected side of a one-way sync.
+     * In push-only mode the local device is protected, in pull-only mode the peer is.
+     * Every dropped operation is reported in the sync log.
+     *
+     * @param operations The list of sync operations to filter.
+     * @param direction The direction of the sync.
+     * @returns The operations allowed by the sync direction.
+     */
+    private filterOperationsByDirection(operations: SyncFileOperation[], direction: SyncDirection): SyncFileOperation[] {
+        if (direction === SyncDirection.Bidirectional) return operations;
+
+        const protectLocal = direction === SyncDirection.PushOnly;
+
+        return operations.filter(operation => {
+            const destination = operation.destination;
+            if (!destination) return true;
+
+            if (destination.isLocal() === protectLocal) {
+                const path = operation.source?.filePath || destination.filePath;
+                consoleLog(`[${SyncDirection[direction]}] Skipped ${SyncFileOperationType[operation.operationType]} of ${path} on ${destination.name}`);
+                return false;
+            }
+
+            // Conflict files are created on both remotes, so only overwrite the destination
+            if (operation.operationType === SyncFileOperationType.HandleConflictAndSync) {
+                consoleLog(`[${SyncDirection[direction]}] Overwriting ${destination.filePath} on ${destination.name} without creating a conflict file`);
+                operation.operationType = SyncFileOperationType.Sync;
+            }
+
+            return true;
+        });
     }
 
     /**
-     * Execute sync operations concurrently, grouped by priority:
+     * Execute sync operations concurrently, a few at a time across the directories, grouped by priority:
      * 1. Move operations first (to ensure paths exist before other operations)
      * 2. Other operations (Sync, HandleConflictAndSync, DeleteAndSync)
      * 3. Delete operations last (to avoid deleting before moves complete)
      *
+     * The sync stops between two operations once it is cancelled.
+     *
      * @param operations The list of sync operations to execute.
+     * @param signal Aborts the remaining operations when the sync is cancelled, the abort error is thrown.
      */
-    private async executeOperationsByPriority(operations: SyncFileOperation[]) {
+    private async executeOperationsByPriority(operations: SyncFileOperation[], signal?: AbortSignal) {
         const priorityGroups: ((op: SyncFileOperation) => boolean)[] = [
             op => op.operationType === SyncFileOperationType.MoveDocs,
             op => op.operationType !== SyncFileOperationType.MoveDocs &&
@@ -1410,14 +2742,36 @@ export class SyncManager {
         ];
 
         for (const filter of priorityGroups) {
+            signal?.throwIfAborted();
+
             const group = operations.filter(filter);
             if (group.length > 0) {
-                await Promise.allSettled(group.map(operation => {
+                await Promise.allSettled(group.map(operation => this.operationPool.add(async () => {
+                    // The queued operations do not start once the sync is cancelled
+                    signal?.throwIfAborted();
+
                     consoleLog("Executing sync operation:", operation);
-                    return this.executeSyncOperation(operation);
-                }));
+                    this.progress.startExecution();
+
+                    return this.executeSyncOperation(operation, signal).then(
+                        () => {
+                            this.progress.addCompleted(operation);
+                            this.syncRun?.markCompleted(operation);
+
+                            // Deleted paths are removed from the synced paths by the operation itself
+                            const path = operation.source?.filePath || operation.destination?.filePath;
+                            if (path && operation.operationType !== SyncFileOperationType.Delete) this.syncedPaths.add(path);
+                        },
+                        error => {
+                            if (!signal?.aborted) this.progress.addCompleted(operation, false);
+                            throw error;
+                        }
+                    );
+                })));
             }
         }
+
+        signal?.throwIfAborted();
     }
 
     /**
@@ -1428,14 +2782,14 @@ export class SyncManager {
      */
     async getSyncFileOperation(
         filePath: string,
-        options?: {
+        options: {
             deleteFoldersOnly?: boolean,
             onlyIfMissing?: boolean,
             avoidDeletions?: boolean,
             trackConflicts?: boolean,
             trackUpdatedFiles?: boolean
-        },
-        remotes: [Remote, Remote] = this.copyRemotes(this.remotes)
+        } = {},
+        remotes: [Remote, Remote]
     ): Promise<SyncFileOperation | null> {
         remotes = this.copyRemotes(remotes);
 
@@ -1471,26 +2825,62 @@ export class SyncManager {
             this.pendingFileChanges.delete(filePath);
         }
 
+        const bothExist = remotes[0].file?.item && remotes[1].file?.item;
+        const dirMismatch = bothExist && remotes[0].file?.isDir !== remotes[1].file?.isDir;
+        const pathMismatch = bothExist && remotes[0].file?.path !== remotes[1].file?.path;
+
+        // The hashes are computed once and only when needed, for the conflict detection and the content comparison
+        let hashes: Promise<[string | null, string | null]> | undefined;
+        const getHashes = () => hashes ??= this.getFileHashes(remotes);
+
         let hasConflict = false;
         if (!options?.onlyIfMissing && !fileRes.isDir && trackConflicts) {
             const result = await ConflictHandler.detectConflict(
                 filePath,
-                remotes
+                remotes,
+                bothExist && !pathMismatch && !dirMismatch ? getHashes : undefined
             );
 
             if (result.hasConflict) hasConflict = true;
         }
 
-        const bothExist = remotes[0].file?.item && remotes[1].file?.item;
-        const dirMismatch = bothExist && remotes[0].file?.isDir !== remotes[1].file?.isDir;
-        const pathMismatch = bothExist && remotes[0].file?.path !== remotes[1].file?.path;
-
         if (bothExist && !pathMismatch && !dirMismatch && (updated[0] === updated[1] || options?.onlyIfMissing)) {
+            // Hashes already computed for the conflict detection are kept, so that the next syncs find them in the manifest
+            const knownHashes = hashes && await hashes;
+            if (knownHashes?.[0] && knownHashes[0] === knownHashes[1])
+                HashManifest.recordSyncedFile(filePath, knownHashes[0], [[remotes[0], updated[0]], [remotes[1], updated[1]]]);
+
             return null;
         }
 
-        let inputIndex = updated[0] > updated[1] ? 0 : 1;
-        let outputIndex = updated[0] > updated[1] ? 1 : 0;
+        // Synced files keep the timestamp of their source, the clock offset only matters to tell which side is newer
+        const localUpdated = [remotes[0].toLocalTime(updated[0]), remotes[1].toLocalTime(updated[1])];
+        let inputIndex = localUpdated[0] > localUpdated[1] ? 0 : 1;
+        let outputIndex = localUpdated[0] > localUpdated[1] ? 1 : 0;
+
+        // Compare the contents, timestamps alone are unreliable with clock skew or touched files
+        if (bothExist && !pathMismatch && !dirMismatch && !fileRes.isDir) {
+            const hashes = await getHashes();
+
+            if (hashes[0] && hashes[0] === hashes[1]) {
+                consoleLog(`File ${filePath} has the same content on both remotes, skipping sync.`);
+                HashManifest.recordSyncedFile(filePath, hashes[0], [[remotes[0], updated[0]], [remotes[1], updated[1]]]);
+                return null;
+            }
+
+            // If only one side changed since the last sync, it wins regardless of the timestamps
+            const syncedHash = HashManifest.getSyncedHash(filePath, remotes);
+            const changedIndex = !syncedHash ? -1 : hashes.findIndex((hash, index) => hash !== syncedHash && hashes[1 - index] === syncedHash);
+
+            if (changedIndex !== -1) {
+                if (changedIndex !== inputIndex)
+                    consoleLog(`File ${filePath} only changed on ${remotes[changedIndex].name}, syncing it despite the older timestamp.`);
+
+                inputIndex = changedIndex;
+                outputIndex = 1 - changedIndex;
+                hasConflict = false;
+            }
+        }
 
         if (dirMismatch) {
             consoleLog(`File ${filePath} is a directory on one remote and a file on the other, performing delete and sync.`);
@@ -1531,29 +2921,46 @@ export class SyncManager {
             const missingIndex = outputIndex;
             const existingIndex = inputIndex;
 
-            const commonSync = SyncHistory.getLastSyncWithRemote(
-                remotes[existingIndex],
-                remotes[missingIndex].instanceId
+            // A directory survives if anything inside it changed after the deletion
+            const existingUpdated = remotes[existingIndex].toLocalTime(
+                (fileRes.isDir ? remotes[existingIndex].file?.recursiveTimestamp : undefined) ?? updated[existingIndex]
             );
+            const remoteTombstone = Tombstones.getTombstone(remotes[missingIndex], filePath);
+            const tombstone = remoteTombstone !== undefined ? remotes[missingIndex].toLocalTime(remoteTombstone) : undefined;
+
+            let shouldDelete: boolean;
+            if (tombstone !== undefined) {
+                // Delete only if the path was deleted after the surviving copy was last modified
+                shouldDelete = tombstone > existingUpdated;
+                consoleLog(`Tombstone on ${remotes[missingIndex].name}: ${tombstone}, surviving copy updated: ${existingUpdated}. Should delete: ${shouldDelete}`);
+            } else if (remotes[missingIndex].fileIndex) {
+                // The path was never on the remote, so it was not deleted there
+                shouldDelete = false;
+                consoleLog(`No tombstone for ${filePath} on ${remotes[missingIndex].name}, it was never synced there.`);
+            } else {
+                const commonSync = SyncHistory.getLastSyncWithRemote(
+                    remotes[existingIndex],
+                    remotes[missingIndex].instanceId
+                );
 
-            const existingLastSync = SyncHistory.getMostRecentSyncTime(
-                remotes[existingIndex]
-            );
+                const existingLastSync = SyncHistory.getMostRecentSyncTime(
+                    remotes[existingIndex]
+                );
 
-            /**
-             * Determine if the file should be deleted based on sync history.
-             * The file should be deleted if all the following conditions are met:
-             * - The last sync time with the other remote is greater than 0 (they have synced before).
-             * - The last sync time with the other remote is greater than the file's last updated timestamp.
-             * - The last sync time with the other remote is greater than the existing remote's last sync time.
-             * Or if there is a directory/file mismatch.
-             * This ensures that we only delete files that were present during the last sync and have not been updated since.
-             */
-            const shouldDelete: boolean = (commonSync > 0) &&
-                (commonSync > updated[existingIndex]) &&
-                (commonSync >= existingLastSync);
-
-            consoleLog(`Last sync with other: ${commonSync}, existing last sync: ${existingLastSync}, file updated: ${updated[existingIndex]}, path mismatch: ${pathMismatch}. Should delete: ${shouldDelete}`);
+                /**
+                 * Remotes which never completed a sync with tombstones have no file index yet,
+                 * so fall back to inferring the deletion from the sync history.
+                 * The file should be deleted if all the following conditions are met:
+                 * - The last sync time with the other remote is greater than 0 (they have synced before).
+                 * - The last sync time with the other remote is greater than the file's last updated timestamp.
+                 * - The last sync time with the other remote is greater than the existing remote's last sync time.
+                 */
+                shouldDelete = (commonSync > 0) &&
+                    (commonSync > updated[existingIndex]) &&
+                    (commonSync >= existingLastSync);
+
+                consoleLog(`Last sync with other: ${commonSync}, existing last sync: ${existingLastSync}, file updated: ${updated[existingIndex]}, path mismatch: ${pathMismatch}. Should delete: ${shouldDelete}`);
+            }
 
             const target = remotes[inputIndex];
 
@@ -1562,6 +2969,7 @@ export class SyncManager {
                     return {
                         operationType: SyncFileOperationType.Delete,
                         destination: target,
+                        deletedAt: tombstone,
                         options
                     };
                 }
@@ -1593,8 +3001,9 @@ export class SyncManager {
     /**
      * Execute a sync operation.
      * @param operation The sync operation to execute.
+     * @param signal Aborts the transfers when the sync is cancelled, the abort error is thrown.
      */
-    private async executeSyncOperation(operation: SyncFileOperation) {
+    private async executeSyncOperation(operation: SyncFileOperation, signal?: AbortSignal) {
         const [source, destination] = [operation.source, operation.destination];
         if (!source && !destination) {
             consoleWarn("No valid source or destination provided for sync operation.");
@@ -1612,14 +3021,32 @@ export class SyncManager {
                 // Multiply the timestamp by 1000 because `putFile` converts it automatically
                 const timestamp = source.file?.timestamp * 1000;
 
-                const syFile = await getFileBlob(filePath, source.url, SyncUtils.getHeaders(source.key));
+                // Large files already on the destination only send their changed blocks when possible
+                let syFile = await this.transferDelta(filePath, source, destination, timestamp, signal);
+
                 if (!syFile) {
-                    consoleLog(`File ${filePath} not found in source: ${source.name}`);
-                    return SyncFileResult.NotFound;
+                    syFile = await this.getSourceFile(filePath, source, signal);
+                    if (!syFile) {
+                        consoleLog(`File ${filePath} not found in source: ${source.name}`);
+                        return SyncFileResult.NotFound;
+                    }
+
+                    await this.journal?.backup(filePath, destination);
+
+                    // Large files are uploaded in parts on slow links, the sent parts count as they go
+                    if (!await this.uploadChunked(filePath, syFile, destination, timestamp, signal)) {
+                        const file = new File([syFile], source.file.name, { lastModified: timestamp });
+                        await SyncUtils.putFile(filePath, file, destination.url, destination.key, timestamp, signal);
+                        this.progress.addBytes(syFile.size);
+                    }
                 }
 
-                const file = new File([syFile], source.file.name, { lastModified: timestamp });
-                await SyncUtils.putFile(filePath, file, destination.url, destination.key, timestamp);
+                const hash = await HashManifest.computeHash(syFile);
+                if (hash) HashManifest.recordSyncedFile(filePath, hash, [[source, source.file.timestamp], [destination, source.file.timestamp]]);
+
+                // Keep the synced version of documents and data files which may be merged later on
+                if (operation?.options?.trackConflicts && (filePath.endsWith(".sy") || DataMerger.isMergeable(filePath)))
+                    await DocumentMerger.saveBaseVersion(filePath, syFile, [source, destination]);
 
                 if (operation?.options?.trackUpdatedFiles) {
                     const updatedFiles = destination.isLocal() ? this.locallyUpdatedFiles : this.remotelyUpdatedFiles;
@@ -1628,68 +3055,177 @@ export class SyncManager {
                 break;
 
             case SyncFileOperationType.Delete:
-                await SyncUtils.deleteFile(filePath, destination);
+                await this.journal?.backup(filePath, destination);
+                await SyncUtils.deleteFile(filePath, destination, signal);
+                HashManifest.forgetFile(filePath, [source, destination].filter(Boolean));
+
+                // Keep the original deletion time, so that other peers apply the same rule
+                destination.tombstones.set(filePath, destination.toRemoteTime(operation.deletedAt ?? Math.floor(Date.now() / 1000)));
+                for (const path of Array.from(this.syncedPaths)) {
+                    if (path === filePath || path.startsWith(`${filePath}/`))
+                        this.syncedPaths.delete(path);
+                }
                 break;
 
             case SyncFileOperationType.DeleteAndSync:
-                await SyncUtils.deleteFile(filePath, destination);
+                await this.journal?.backup(filePath, destination);
+                await SyncUtils.deleteFile(filePath, destination, signal);
 
                 await this.executeSyncOperation({
                     operationType: SyncFileOperationType.Sync,
                     source,
                     destination,
                     options: operation.options
-                });
+                }, signal);
                 break;
 
             case SyncFileOperationType.HandleConflictAndSync:
-                await ConflictHandler.handleConflictDetection(
+                // Merging writes on both remotes, conflict copies are new files and are kept on undo
+                await Promise.all([
+                    this.journal?.backup(filePath, source!),
+                    this.journal?.backup(filePath, destination!)
+                ]);
+
+                // The source holds the newer version, the destination the older one
+                const merged = filePath.endsWith(".sy")
+                    ? await DocumentMerger.mergeAndSync(filePath, [source!, destination!])
+                    : await DataMerger.mergeAndSync(filePath, [source!, destination!], this.plugin.i18n);
+
+                if (merged) {
+                    if (operation?.options?.trackUpdatedFiles) {
+                        this.locallyUpdatedFiles.add(filePath);
+                        this.remotelyUpdatedFiles.add(filePath);
+                    }
+                    break;
+                }
+
+                // Only documents can be kept in a conflict document
+                if (filePath.endsWith(".sy") && await ConflictHandler.handleConflictDetection(
                     filePath,
                     [source!, destination!],
-                    this.plugin.i18n
-                );
+                    this.plugin.i18n,
+                    () => this.getFileHashes([source!, destination!])
+                )) this.conflictDetected = true;
 
                 await this.executeSyncOperation({
                     operationType: SyncFileOperationType.Sync,
                     source,
                     destination,
                     options: operation.options
-                });
+                }, signal);
                 break;
 
             case SyncFileOperationType.MoveDocs:
-                await SyncUtils.moveDocs(destination!.filePath, source?.file?.parentPath, destination!);
+                await this.journal?.backup(destination!.filePath, destination!);
+                await SyncUtils.moveDocs(destination!.filePath, source?.file?.parentPath, destination!, signal);
 
                 await this.executeSyncOperation({
                     operationType: SyncFileOperationType.Sync,
                     source,
                     destination,
                     options: operation.options
-                });
+                }, signal);
 
                 break;
         }
     }
 
+    /**
+     * Undo the last sync, restoring on both remotes every path it wrote or deleted.
+     * The journal is consumed, so the same sync cannot be undone twice.
+     */
+    async undoLastSync() {
+        if (this.getSyncStatus() === SyncStatus.InProgress) {
+            consoleWarn("Sync is already in progress.");
+            return;
+        }
+
+        const journal = await SyncJournal.loadJournal(this.localRemote);
+        if (!journal) {
+            showMessage(this.plugin.i18n.undoLastSyncNothing, 4000);
+            return;
+        }
+
+        const peer = this.getPeers().find(peer => peer.url === journal.peerUrl);
+        if (!peer) {
+            showMessage(this.plugin.i18n.undoLastSyncPeerMissing.replace("{{remoteName}}", journal.peerName), 6000, "error");
+            return;
+        }
+
+        const remotes: [Remote, Remote] = [this.localRemote.clone(), peer.clone()];
+        let locked = false;
+
+        this.setSyncStatus(SyncStatus.InProgress);
+
+        try {
+            await this.acquireAllLocks(remotes);
+            locked = true;
+
+            // The peer may have synced with another device in the meantime, its journal would then be for another sync
+            const peerJournal = await SyncJournal.loadJournal(remotes[1]);
+            if (peerJournal?.id !== journal.id)
+                throw new Error(this.plugin.i18n.undoLastSyncMismatch.replace("{{remoteName}}", peer.name));
+
+            showMessage(this.plugin.i18n.undoingLastSync.replace("{{remoteName}}", peer.name), 0, "info", "mainSyncNotification");
+            consoleLog(`Undoing the sync ${journal.id} with ${peer.name}, started at ${journal.startedAt}...`);
+
+            const restored = await Promise.all([
+                SyncJournal.restore(remotes[0], journal),
+                SyncJournal.restore(remotes[1], peerJournal, (copies, peer) => this.copyPeerFiles(copies, peer))
+            ]);
+
+            await Promise.all(remotes.map(remote => SyncJournal.clear(remote)));
+            await this.loadSyncHistory(this.localRemote);
+
+            reloadFiletree(remotes[0].url, SyncUtils.getHeaders(remotes[0].key));
+            reloadFiletree(remotes[1].url, SyncUtils.getHeaders(remotes[1].key));
+            await this.reloadProtyles();
+            this.sendReloadProtylesMessage(undefined, remotes[1]);
+
+            this.dismissMainSyncNotification();
+            showMessage(
+                this.plugin.i18n.undoLastSyncDone
+                    .replace("{{remoteName}}", peer.name)
+                    .replace("{{count}}", String(restored[0] + restored[1])),
+                6000
+            );
+            consoleLog(`Undid the sync with ${peer.name}, ${restored[0]} paths restored locally and ${restored[1]} on the peer.`);
+
+            this.setSyncStatus(SyncStatus.Done);
+        } catch (error) {
+            this.dismissMainSyncNotification();
+            consoleError("Error undoing the last sync:", error);
+            showMessage(this.plugin.i18n.undoLastSyncFailed.replace("{{error}}", error.message), 6000, "error");
+
+            this.setSyncStatus(SyncStatus.Failed);
+        } finally {
+            if (locked) await this.releaseAllLocks(remotes);
+        }
+    }
+
     /**
      * Synchronize the petals list between local and remote devices.
      * This function checks if the petals list is empty in either remote and syncs it if necessary.
      * @param remotes An array of exactly two Remote objects containing remote server information.
+     * @param direction The direction of the sync, the petals list is never written to the protected side.
      */
-    private async syncPetalsListIfEmpty(remotes: [Remote, Remote] = this.copyRemotes(this.remotes)) {
+    private async syncPetalsListIfEmpty(remotes: [Remote, Remote], direction: SyncDirection = SyncDirection.Bidirectional) {
         SyncUtils.checkRemotes(remotes);
 
         const petalsList = await Promise.all([
-            getFileBlob("/data/storage/petal/petals.json", remotes[0].url, SyncUtils.getHeaders(remotes[0].key)),
-            getFileBlob("/data/storage/petal/petals.json", remotes[1].url, SyncUtils.getHeaders(remotes[1].key))
+            SyncUtils.readFile("/data/storage/petal/petals.json", remotes[0]),
+            SyncUtils.readFile("/data/storage/petal/petals.json", remotes[1])
         ]);
 
         for (let index = 0; index < petalsList.length; index++) {
+            if ((index === 0 && direction === SyncDirection.PushOnly) || (index === 1 && direction === SyncDirection.PullOnly))
+                continue;
+
             if (!petalsList[index] || await petalsList[index].text() === "[]") {
                 const otherIndex = index === 0 ? 1 : 0;
                 consoleLog(`Syncing petals list from ${remotes[otherIndex].name} to ${remotes[index].name}`);
                 let file = new File([petalsList[otherIndex]], "petals.json");
-                SyncUtils.putFile("/data/storage/petal/petals.json", file, remotes[index].url, remotes[index].key);
+                SyncUtils.writeFile("/data/storage/petal/petals.json", file, remotes[index]);
                 break;
             }
         }
@@ -1702,7 +3238,7 @@ export class SyncManager {
      * if the minimum time between snapshots has passed.
      * @param remotes - An array of exactly two Remote objects containing remote server information.
      */
-    private async createDataSnapshots(remotes: [Remote, Remote] = this.copyRemotes(this.remotes)) {
+    private async createDataSnapshots(remotes: [Remote, Remote]) {
         SyncUtils.checkRemotes(remotes);
 
         consoleLog("Creating data snapshots for both local and remote devices...");
@@ -1742,7 +3278,7 @@ export class SyncManager {
      * @param remote The remote information containing URL and key.
      * @returns The asset file path of the newest sync log.
      */
-    async getNewestSyncLogAsAsset(remote: Remote = this.copyRemotes(this.remotes)[0]): Promise<string | null> {
+    async getNewestSyncLogAsAsset(remote: Remote = this.localRemote.clone()): Promise<string | null> {
         const lastSyncLog = await SyncUtils.getNewestSyncLogFile(remote);
 
         if (!lastSyncLog) return null;
@@ -0,0 +1,243 @@
+import { readDir } from "@/api";
+import { consoleError, consoleLog, consoleWarn } from "@/logging";
+import { FILE_INDEX_FILE, Remote, SYNC_CONFIG_DIR, SyncUtils, TOMBSTONES_FILE } from "@/sync";
+
+/**
+ * The paths present on a remote at the end of its last full sync.
+ */
+export interface FileIndex {
+    timestamp: number;
+    paths: Set<string>;
+}
+
+export class Tombstones {
+    /**
+     * Tombstones older than this are dropped, in seconds.
+     */
+    static readonly RETENTION = 365 * 24 * 60 * 60;
+
+    /**
+     * The API endpoints deleting files, intercepted to record tombstones.
+     */
+    private static readonly DELETION_ENDPOINTS = [
+        "/api/filetree/removeDoc",
+        "/api/filetree/removeDocs",
+        "/api/file/removeFile",
+        "/api/notebook/removeNotebook"
+    ];
+
+    /**
+     * Pending tombstone updates, chained so that concurrent deletions do not overwrite each other.
+     */
+    private static queue: Promise<void> = Promise.resolve();
+
+    /**
+     * Read a JSON file from the sync config directory of a remote.
+     */
+    private static async readConfigFile(remote: Remote, fileName: string): Promise<any | null> {
+        const dir = await readDir(SYNC_CONFIG_DIR, remote.url, SyncUtils.getHeaders(remote.key));
+        if (!dir || !dir.some(file => file.name === fileName)) return null;
+
+        const blob = await SyncUtils.readFile(`${SYNC_CONFIG_DIR}${fileName}`, remote);
+        if (!blob) {
+            consoleWarn(`Failed to fetch ${fileName} for ${remote.name}`);
+            return null;
+        }
+
+        return JSON.parse(await blob.text());
+    }
+
+    /**
+     * Load the deletion tombstones from disk for a specific remote.
+     *
+     * @param remote The remote information containing URL and key.
+     * @returns A Map of deleted paths to their deletion timestamps in seconds.
+     */
+    static async loadTombstones(remote: Remote): Promise<Map<string, number>> {
+        try {
+            const data = await Tombstones.readConfigFile(remote, TOMBSTONES_FILE);
+            return new Map(Object.entries(data || {}));
+        } catch (error) {
+            consoleError(`Error loading tombstones for ${remote.name}:`, error);
+            return new Map();
+        }
+    }
+
+    /**
+     * Save the deletion tombstones of a remote.
+     * Tombstones recorded on disk in the meantime, e.g. by a deletion during the sync, are kept.
+     *
+     * @param remote The remote information containing URL, key and the tombstones.
+     */
+    static async saveTombstones(remote: Remote): Promise<void> {
+        await Tombstones.updateTombstones(remote, tombstones => {
+            remote.tombstones.forEach((timestamp, path) => tombstones.set(path, timestamp));
+        });
+    }
+
+    /**
+     * Record deleted paths on a remote.
+     *
+     * @param remote The remote where the paths were deleted.
+     * @param paths The deleted paths, relative to the workspace root.
+     * @param timestamp The deletion time in seconds, defaults to now.
+     */
+    static async recordDeletions(remote: Remote, paths: string[], timestamp: number = Math.floor(Date.now() / 1000)) {
+        consoleLog(`Recording tombstones on ${remote.name}: ${paths.join(", ")}`);
+
+        await Tombstones.updateTombstones(remote, tombstones => {
+            paths.forEach(path => tombstones.set(path, Math.max(tombstones.get(path) || 0, timestamp)));
+        });
+    }
+
+    /**
+     * Load, update and save the tombstones of a remote, one update at a time.
+     * Expired tombstones are dropped while saving.
+     */
+    private static updateTombstones(remote: Remote, update: (tombstones: Map<string, number>) => void): Promise<void> {
+        const task = Tombstones.queue.then(async () => {
+            try {
+                const tombstones = await Tombstones.loadTombstones(remote);
+                update(tombstones);
+
+                const expiry = Math.floor(Date.now() / 1000) - Tombstones.RETENTION;
+                tombstones.forEach((timestamp, path) => {
+                    if (timestamp < expiry) tombstones.delete(path);
+                });
+
+                const file = new File([JSON.stringify(Object.fromEntries(tombstones))], TOMBSTONES_FILE, { lastModified: Date.now() });
+                await SyncUtils.writeFile(`${SYNC_CONFIG_DIR}${TOMBSTONES_FILE}`, file, remote);
+            } catch (error) {
+                consoleError(`Error saving tombstones for ${remote.name}:`, error);
+            }
+        });
+
+        Tombstones.queue = task;
+        return task;
+    }
+
+    /**
+     * Wait for the pending tombstone updates to be saved.
+     */
+    static whenIdle(): Promise<void> {
+        return Tombstones.queue;
+    }
+
+    /**
+     * Get the deletion time of a path, looking at the tombstones of the path and of its parent directories.
+     * Deleting a document also deletes the directory holding its sub-documents.
+     *
+     * @param remote The remote where the path is missing.
+     * @param path The path, relative to the workspace root.
+     * @returns The most recent deletion timestamp covering the path, or undefined if there is none.
+     */
+    static getTombstone(remote: Remote, path: string): number | undefined {
+        let result: number | undefined;
+
+        const parts = path.split("/");
+        for (let length = parts.length; length > 0; length--) {
+            const timestamp = remote.tombstones.get(parts.slice(0, length).join("/"));
+            if (timestamp !== undefined && (result === undefined || timestamp > result))
+                result = timestamp;
+        }
+
+        return result;
+    }
+
+    /**
+     * Record a tombstone for a path which is part of the file index of a remote but is now missing there.
+     * The deletion time is unknown, so the time of the last full sync is used, the latest time the path is known to exist.
+     *
+     * @param remote The remote where the path is missing.
+     * @param path The missing path.
+     */
+    static detectDeletion(remote: Remote, path: string) {
+        if (!remote.fileIndex?.paths.has(path) || Tombstones.getTombstone(remote, path) !== undefined) return;
+
+        consoleLog(`${path} was deleted from ${remote.name} since the last sync.`);
+        remote.tombstones.set(path, remote.fileIndex.timestamp);
+    }
+
+    /**
+     * Get the paths deleted by a request to the SiYuan API, relative to the workspace root.
+     *
+     * @param url The API endpoint.
+     * @param requestBody The JSON request body.
+     * @returns The deleted paths, empty if the request does not delete anything.
+     */
+    static getDeletedPaths(url: string, requestBody: BodyInit | null | undefined): string[] {
+        if (!Tombstones.DELETION_ENDPOINTS.includes(url) || typeof requestBody !== "string") return [];
+
+        let body: any;
+        try {
+            body = JSON.parse(requestBody);
+        } catch {
+            return [];
+        }
+
+        const normalize = (path: string) => path.replace(/^\/+/, "");
+
+        // Documents take their sub-documents directory with them
+        const withChildren = (path: string) => path.endsWith(".sy") ? [path, path.replace(/\.sy$/, "")] : [path];
+
+        let paths: string[] = [];
+        switch (url) {
+            case "/api/filetree/removeDoc":
+                if (body?.notebook && body?.path)
+                    paths = withChildren(`data/${body.notebook}/${normalize(body.path)}`);
+                break;
+
+            case "/api/filetree/removeDocs":
+                paths = (body?.paths || []).flatMap((path: string) => withChildren(`data/${normalize(path)}`));
+                break;
+
+            case "/api/file/removeFile":
+                if (body?.path) paths = [normalize(body.path)];
+                break;
+
+            case "/api/notebook/removeNotebook":
+                if (body?.notebook) paths = [`data/${body.notebook}`];
+                break;
+        }
+
+        // The sync configuration is never synced
+        return paths.filter(path => !path.startsWith(SYNC_CONFIG_DIR));
+    }
+
+    /**
+     * Load the file index from disk for a specific remote.
+     *
+     * @param remote The remote information containing URL and key.
+     * @returns The file index, or null if the remote never completed a full sync.
+     */
+    static async loadFileIndex(remote: Remote): Promise<FileIndex | null> {
+        try {
+            const data = await Tombstones.readConfigFile(remote, FILE_INDEX_FILE);
+            if (!data) return null;
+
+            return { timestamp: data.timestamp || 0, paths: new Set(data.paths || []) };
+        } catch (error) {
+            consoleError(`Error loading file index for ${remote.name}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Save the same file index on both remotes, after a full sync left them with the same files.
+     *
+     * @param remotes The pair of remotes involved in the sync.
+     * @param paths The paths present on both remotes.
+     * @param timestamp The time of the sync in seconds, on the local clock.
+     */
+    static async updateFileIndexes(remotes: [Remote, Remote], paths: Set<string>, timestamp: number): Promise<void> {
+        await Promise.allSettled(remotes.map(async remote => {
+            // The time is stored on the clock of the remote, like its tombstones
+            const remoteTimestamp = remote.toRemoteTime(timestamp);
+            const content = JSON.stringify({ timestamp: remoteTimestamp, paths: Array.from(paths) });
+
+            const file = new File([content], FILE_INDEX_FILE, { lastModified: Date.now() });
+            await SyncUtils.writeFile(`${SYNC_CONFIG_DIR}${FILE_INDEX_FILE}`, file, remote);
+            remote.fileIndex = { timestamp: remoteTimestamp, paths };
+        }));
+    }
+}
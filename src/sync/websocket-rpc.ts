@@ -0,0 +1,274 @@
+import { consoleError, consoleWarn } from "@/logging";
+import { Compression } from "@/libs/compression";
+import { Payload } from "@/libs/payload";
+import { Protocol } from "@/libs/protocol";
+import { Remote } from "@/sync";
+
+// Marks an attempt without an answer
+const TIMEOUT = Symbol("timeout");
+
+/**
+ * Options of a request sent to a peer.
+ */
+export interface RpcOptions {
+    // The time to wait for the response to each attempt, in milliseconds
+    timeout?: number;
+    // The number of attempts after the first one
+    retries?: number;
+    // The compression format of the request, negotiated with the peer
+    compression?: CompressionFormat | null;
+    // Do not wait for a response, for the peers which do not acknowledge requests
+    noResponse?: boolean;
+    // The request ID, to send the same request again later without running it twice
+    requestId?: string;
+}
+
+/**
+ * Thrown when a peer does not answer a request, after every attempt.
+ */
+export class RpcTimeoutError extends Error {
+    public type: string;
+    public remote: Remote;
+
+    constructor(message: string, type: string, remote: Remote) {
+        super(message);
+        this.name = "RpcTimeoutError";
+        this.type = type;
+        this.remote = remote;
+    }
+}
+
+/**
+ * Thrown when a peer acknowledges a request as failed, sending it again would fail the same way.
+ */
+export class RpcRefusedError extends Error {
+    public type: string;
+    public remote: Remote;
+
+    constructor(message: string, type: string, remote: Remote) {
+        super(message);
+        this.name = "RpcRefusedError";
+        this.type = type;
+        this.remote = remote;
+    }
+}
+
+/**
+ * The answer to a request, kept to answer its retries.
+ */
+interface StoredAnswer {
+    answer: Promise<string | null>;
+    // The length of the encoded answer, 0 until it is ready
+    size: number;
+}
+
+interface PendingRequest {
+    type: string;
+    remoteUrl: string;
+    resolve: (data: any) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Requests and responses on top of the WebSocket channels: requests are sent to the input channel of a peer,
+ * which answers each of them on its output channel with a response or an ack carrying the same request ID.
+ * Requests without an answer are sent again, and the peer answers the retries of a request it already ran without running it again.
+ */
+export class WebSocketRpc {
+    /**
+     * How long an answer is kept after the last retry of its request was sent, for the retry to arrive, in milliseconds.
+     */
+    static readonly ANSWER_GRACE = 30 * 1000;
+
+    /**
+     * The total length of the answers kept to answer retried requests, the oldest ones are dropped first.
+     */
+    static readonly MAX_ANSWERS_SIZE = 16 * 1024 * 1024;
+
+    private pending: Map<string, PendingRequest> = new Map();
+    private answers: Map<string, StoredAnswer> = new Map();
+    private answersSize = 0;
+    private send: (message: string, remote: Remote) => Promise<void>;
+    private reply: (message: string) => Promise<void>;
+    private getDefaults: () => { timeout: number, retries: number };
+    private getEncryptionKey: () => Promise<CryptoKey | null>;
+
+    /**
+     * @param send Sends a message to the input channel of a peer.
+     * @param reply Sends a message to the output channel of this device.
+     * @param getDefaults Gets the default timeout and number of retries, from the settings.
+     * @param getEncryptionKey Gets the key to encrypt the messages with, or null if encryption is disabled.
+     */
+    constructor(
+        send: (message: string, remote: Remote) => Promise<void>,
+        reply: (message: string) => Promise<void>,
+        getDefaults: () => { timeout: number, retries: number },
+        getEncryptionKey: () => Promise<CryptoKey | null>
+    ) {
+        this.send = send;
+        this.reply = reply;
+        this.getDefaults = getDefaults;
+        this.getEncryptionKey = getEncryptionKey;
+    }
+
+    /**
+     * Send a request to a peer and wait for its answer.
+     *
+     * @param type The type of the request.
+     * @param data The data of the request, the request ID is added.
+     * @param remote The peer.
+     * @param options The options of the request.
+     * @returns The data of the response, or null if no response is expected.
+     * @throws RpcTimeoutError if the peer does not answer, or RpcRefusedError if the peer acknowledges a failure.
+     */
+    async request(type: string, data: any, remote: Remote, options: RpcOptions = {}): Promise<any> {
+        const requestId = options.requestId ?? crypto.randomUUID();
+        const defaults = this.getDefaults();
+        const timeout = options.timeout ?? defaults.timeout;
+        const retries = options.retries ?? defaults.retries;
+
+        // The peer keeps its answer as long as a retry may be sent
+        const retryWindow = options.noResponse ? 0 : timeout * retries;
+        const message = await this.encode(new Payload(type, { ...data, requestId, retryWindow }), options.compression ?? null);
+
+        if (options.noResponse) {
+            await this.send(message, remote);
+            return null;
+        }
+
+        const answer = new Promise((resolve, reject) => {
+            this.pending.set(requestId, { type, remoteUrl: remote.url, resolve, reject });
+        });
+
+        try {
+            for (let attempt = 0; attempt <= retries; attempt++) {
+                if (attempt > 0)
+                    consoleWarn(`No answer to ${type} from ${remote.name}, sending it again (${attempt}/${retries}).`);
+
+                await this.send(message, remote);
+
+                let timeoutId: ReturnType<typeof setTimeout>;
+                const expired = new Promise<typeof TIMEOUT>(resolve => {
+                    timeoutId = setTimeout(() => resolve(TIMEOUT), timeout);
+                });
+
+                const result = await Promise.race([answer, expired]).finally(() => clearTimeout(timeoutId));
+                if (result !== TIMEOUT) return result;
+            }
+        } finally {
+            this.pending.delete(requestId);
+        }
+
+        throw new RpcTimeoutError(`No answer to ${type} from ${remote.name} after ${retries + 1} attempts`, type, remote);
+    }
+
+    /**
+     * Handle an answer received on the output channel of a peer.
+     * Answers to requests of other devices, or to requests already answered, are ignored.
+     *
+     * @param payload The answer.
+     * @param remote The peer it was received from.
+     */
+    handleAnswer(payload: Payload, remote: Remote) {
+        let requestId: string | undefined = payload.data.requestId;
+
+        // Older versions answer some requests without their ID, the oldest pending request of the same type is answered
+        if (!requestId) {
+            requestId = Array.from(this.pending.entries()).find(([, pending]) =>
+                pending.remoteUrl === remote.url && Protocol.getResponseType(pending.type) === payload.type
+            )?.[0];
+        }
+
+        const pending = requestId !== undefined ? this.pending.get(requestId) : undefined;
+        if (!pending) return;
+
+        this.pending.delete(requestId);
+
+        if (payload.type === "ack" && !payload.data.ok)
+            pending.reject(new RpcRefusedError(`${pending.type} failed on ${remote.name}: ${payload.data.error || "unknown error"}`, pending.type, remote));
+        else
+            pending.resolve(payload.data);
+    }
+
+    /**
+     * Handle a request received on the input channel of this device, and answer it.
+     * A request already handled is answered again without running it twice,
+     * as long as a retry of the request may arrive and the answer fits in the kept answers.
+     *
+     * @param payload The request.
+     * @param handler Runs the request, returning its response or null to acknowledge it.
+     */
+    async handleRequest(payload: Payload, handler: () => Promise<Payload | null>) {
+        const { requestId, compression, retryWindow } = payload.data;
+
+        // Requests of older versions without an ID are not answered
+        if (!requestId) {
+            await handler();
+            return;
+        }
+
+        let stored = this.answers.get(requestId);
+        if (!stored) {
+            const receivedAt = Date.now();
+            const format = Compression.isSupported(compression) ? compression : null;
+
+            const answer = handler().then(
+                response => this.encode(response ?? new Payload("ack", { requestId, ok: true }), format),
+                error => {
+                    consoleError(`Error handling ${payload.type} request:`, error);
+                    return this.encode(new Payload("ack", { requestId, ok: false, error: String(error?.message ?? error) }), null);
+                }
+            );
+
+            stored = { answer, size: 0 };
+            this.answers.set(requestId, stored);
+
+            // Older versions do not send their retry window, the defaults of this device are used instead
+            const defaults = this.getDefaults();
+            const window = typeof retryWindow === "number" ? retryWindow : defaults.timeout * defaults.retries;
+            this.keepAnswer(requestId, stored, receivedAt + window + WebSocketRpc.ANSWER_GRACE);
+        }
+
+        const message = await stored.answer;
+        if (message) await this.reply(message);
+    }
+
+    /**
+     * Keep an answer until a retry of its request can no longer arrive, within the size limit of the kept answers.
+     *
+     * @param requestId The ID of the request.
+     * @param stored The answer.
+     * @param expiresAt When the last retry may arrive, in milliseconds.
+     */
+    private keepAnswer(requestId: string, stored: StoredAnswer, expiresAt: number) {
+        stored.answer.then(
+            message => {
+                stored.size = message?.length ?? 0;
+                this.answersSize += stored.size;
+
+                setTimeout(() => this.forgetAnswer(requestId, stored), Math.max(expiresAt - Date.now(), 0));
+
+                for (const [id, other] of this.answers) {
+                    if (this.answersSize <= WebSocketRpc.MAX_ANSWERS_SIZE) break;
+                    if (other.size > 0) this.forgetAnswer(id, other);
+                }
+            },
+            () => this.forgetAnswer(requestId, stored)
+        );
+    }
+
+    private forgetAnswer(requestId: string, stored: StoredAnswer) {
+        if (this.answers.get(requestId) !== stored) return;
+
+        this.answers.delete(requestId);
+        this.answersSize -= stored.size;
+    }
+
+    /**
+     * Encode a message, encrypted when encryption is enabled.
+     */
+    private async encode(payload: Payload, format: CompressionFormat | null): Promise<string> {
+        const key = await this.getEncryptionKey();
+        return key ? payload.toEncryptedString(key, format) : payload.toCompressedString(format);
+    }
+}
@@ -4,11 +4,21 @@ export enum SyncStatus {
     None,
     InProgress,
     Failed,
+    Cancelled,
     DoneWithConflict,
     Done
 }
 
-export type SyncStatusCallback = (status: SyncStatus) => void;
+/**
+ * Called when the sync status or the progress of the running sync changes, the progress is null when no sync is running.
+ */
+export type SyncStatusCallback = (status: SyncStatus, progress: SyncProgressInfo | null) => void;
+
+export enum SyncDirection {
+    Bidirectional,
+    PushOnly,
+    PullOnly
+}
 
 export enum SyncFileResult {
     Success,
@@ -31,6 +41,8 @@ export interface SyncFileOperation {
     operationType: SyncFileOperationType;
     source?: Remote;
     destination?: Remote;
+    // For deletions, when the path was deleted on the other remote
+    deletedAt?: number;
     options?: {
         deleteFoldersOnly?: boolean,
         onlyIfMissing?: boolean,
@@ -39,3 +51,17 @@ export interface SyncFileOperation {
         trackUpdatedFiles?: boolean
     };
 }
+
+export interface SyncProgressInfo {
+    remoteName: string;
+    // Times in milliseconds
+    startedAt: number;
+    scannedDirectories: number;
+    totalDirectories: number;
+    planned: Partial<Record<SyncFileOperationType, number>>;
+    completed: Partial<Record<SyncFileOperationType, number>>;
+    failed: number;
+    bytesTransferred: number;
+    // The estimated remaining time in milliseconds, null until an operation has completed
+    eta: number | null;
+}